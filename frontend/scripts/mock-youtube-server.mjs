@@ -0,0 +1,258 @@
+// 本地YouTube Data API v3替身：返回与真实API一致的响应结构和错误体，不消耗真实配额
+//
+//   npm run mock:youtube            默认监听 http://localhost:8787/youtube/v3
+//   MOCK_PORT=9000 MOCK_QUOTA_LIMIT=500 npm run mock:youtube
+//
+// 按key模拟错误：
+//   以 "invalid" 开头   -> 400 keyInvalid
+//   以 "disabled" 开头  -> 403 accessNotConfigured
+//   以 "quota" 开头     -> 403 quotaExceeded
+//   以 "ratelimit" 开头 -> 每隔一次请求返回 429 rateLimitExceeded
+//   以 "flaky" 开头     -> 约三分之一的请求返回 503 backendError
+//   其他key按 MOCK_QUOTA_LIMIT（默认10000）计算配额，用完后返回 quotaExceeded
+//   POST /__reset 清空配额计数
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.MOCK_PORT || 8787);
+const QUOTA_LIMIT = Number(process.env.MOCK_QUOTA_LIMIT || 10000);
+const QUOTA_COSTS = { search: 100, videos: 1, channels: 1, playlistItems: 1 };
+const CHANNEL_POOL_SIZE = 20;
+const MAX_PAGES = 3;
+
+const quotaUsed = new Map();
+const requestCounts = new Map();
+// search.list返回过的视频，videos.list 返回一致的 snippet
+const knownVideos = new Map();
+
+// 稳定的字符串哈希，保证相同参数得到相同的数据
+const hash = (value) => {
+  let result = 2166136261;
+  for (const char of value) {
+    result = Math.imul(result ^ char.charCodeAt(0), 16777619) >>> 0;
+  }
+  return result;
+};
+
+const errorBody = (code, reason, message, domain = 'youtube.quota') => ({
+  error: {
+    code,
+    message,
+    errors: [{ message, domain, reason }],
+  },
+});
+
+const ERRORS = {
+  keyInvalid: () => [400, errorBody(400, 'badRequest', 'API key not valid. Please pass a valid API key.', 'global')],
+  accessNotConfigured: () => [403, errorBody(403, 'accessNotConfigured',
+    'YouTube Data API v3 has not been used in project mock before or it is disabled.', 'usageLimits')],
+  quotaExceeded: () => [403, errorBody(403, 'quotaExceeded',
+    'The request cannot be completed because you have exceeded your <a href="/youtube/v3/getting-started#quota">quota</a>.')],
+  forbidden: () => [403, errorBody(403, 'forbidden', 'The request is missing a valid API key.', 'global')],
+  notFound: () => [404, errorBody(404, 'notFound', 'Not Found', 'global')],
+  rateLimited: () => [429, errorBody(429, 'rateLimitExceeded', 'The request cannot be completed because you have exceeded the rate limit.', 'youtube.quota')],
+  backendError: () => [503, errorBody(503, 'backendError', 'Backend Error', 'global')],
+};
+
+const thumbnails = (seed) => ({
+  default: { url: `https://picsum.photos/seed/${seed}/120/90` },
+  medium: { url: `https://picsum.photos/seed/${seed}/320/180` },
+  high: { url: `https://picsum.photos/seed/${seed}/480/360` },
+});
+
+const channelId = (index) => `UCmock${String(index).padStart(18, '0')}`;
+
+const isoDaysAgo = (days) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+const videoSnippet = (videoId, query = 'mock video') => {
+  const seed = hash(videoId);
+  const channel = channelId(seed % CHANNEL_POOL_SIZE);
+  return {
+    channelId: channel,
+    channelTitle: `Mock Channel ${channel.slice(-2)}`,
+    title: `${query} #${seed % 1000}`,
+    description: `Recorded-style mock result for "${query}".`,
+    publishedAt: isoDaysAgo(seed % 360),
+    thumbnails: thumbnails(videoId),
+  };
+};
+
+const search = (params) => {
+  const query = params.get('q') || '';
+  const maxResults = Math.min(50, Number(params.get('maxResults') || 5));
+  const page = Number(params.get('pageToken')?.replace('page', '') || 0);
+  const channelFilter = params.get('channelId');
+
+  const items = Array.from({ length: maxResults }, (_, index) => {
+    const videoId = `mock${hash(`${channelFilter || ''}${query}-${page}-${index}`).toString(36).padStart(7, '0')}`;
+    const snippet = videoSnippet(videoId, query);
+    if (channelFilter) {
+      snippet.channelId = channelFilter;
+      snippet.channelTitle = `Mock Channel ${channelFilter.slice(-2)}`;
+    }
+    knownVideos.set(videoId, snippet);
+    return { kind: 'youtube#searchResult', id: { kind: 'youtube#video', videoId }, snippet };
+  });
+
+  return {
+    kind: 'youtube#searchListResponse',
+    nextPageToken: page + 1 < MAX_PAGES ? `page${page + 1}` : undefined,
+    pageInfo: { totalResults: maxResults * MAX_PAGES, resultsPerPage: maxResults },
+    items,
+  };
+};
+
+const videos = (params) => {
+  const ids = (params.get('id') || '').split(',').filter(Boolean);
+  const items = ids.map((id) => {
+    const seed = hash(id);
+    const viewCount = 1000 + (seed % 2000000);
+    const minutes = seed % 7 === 0 ? 0 : seed % 45;
+    return {
+      kind: 'youtube#video',
+      id,
+      snippet: { ...(knownVideos.get(id) || videoSnippet(id)), tags: ['mock', 'review'] },
+      statistics: {
+        viewCount: String(viewCount),
+        likeCount: String(Math.round(viewCount * ((seed % 60) / 1000))),
+        commentCount: String(Math.round(viewCount * ((seed % 8) / 1000))),
+      },
+      contentDetails: { duration: `PT${minutes ? `${minutes}M` : ''}${seed % 60}S` },
+    };
+  });
+  return { kind: 'youtube#videoListResponse', pageInfo: { totalResults: items.length, resultsPerPage: items.length }, items };
+};
+
+// forHandle / forUsername：@mockchannelNN 对应第NN个频道，其他名称按哈希分配，以 missing 开头的名称找不到
+const lookupChannel = (name) => {
+  const normalized = name.replace(/^@/, '').toLowerCase();
+  if (normalized.startsWith('missing')) return [];
+  const index = normalized.match(/^mockchannel(\d+)$/)?.[1];
+  return [channelId(index !== undefined ? Number(index) % CHANNEL_POOL_SIZE : hash(normalized) % CHANNEL_POOL_SIZE)];
+};
+
+const channels = (params) => {
+  const lookup = params.get('forHandle') || params.get('forUsername');
+  const ids = lookup ? lookupChannel(lookup) : (params.get('id') || '').split(',').filter(Boolean);
+  const items = ids.map((id) => {
+    const seed = hash(id);
+    return {
+      kind: 'youtube#channel',
+      id,
+      snippet: {
+        title: `Mock Channel ${id.slice(-2)}`,
+        description: 'A mock channel served by the local YouTube API stand-in.',
+        customUrl: `@mockchannel${id.slice(-2)}`,
+        publishedAt: isoDaysAgo(365 + (seed % 3000)),
+        thumbnails: thumbnails(id),
+        country: ['US', 'GB', 'DE', 'JP', 'CA'][seed % 5],
+      },
+      statistics: {
+        viewCount: String(100000 + (seed % 90000000)),
+        subscriberCount: String(1000 + (seed % 2000000)),
+        videoCount: String(20 + (seed % 800)),
+        hiddenSubscriberCount: false,
+      },
+      contentDetails: {
+        relatedPlaylists: { uploads: `UU${id.slice(2)}` },
+      },
+    };
+  });
+  return { kind: 'youtube#channelListResponse', pageInfo: { totalResults: items.length, resultsPerPage: items.length }, items };
+};
+
+// 频道上传列表：search.list 中出现过的该频道视频排在最前，其余按频道生成
+const playlistItems = (params) => {
+  const playlistId = params.get('playlistId') || '';
+  const channel = `UC${playlistId.slice(2)}`;
+  const maxResults = Math.min(50, Number(params.get('maxResults') || 5));
+  const page = Number(params.get('pageToken')?.replace('page', '') || 0);
+
+  const seen = [...knownVideos].filter(([, snippet]) => snippet.channelId === channel).map(([videoId]) => videoId);
+  const uploads = Array.from({ length: 50 * MAX_PAGES }, (_, index) =>
+    seen[index] || `mock${hash(`${playlistId}-${index}`).toString(36).padStart(7, '0')}`);
+
+  const items = uploads.slice(page * maxResults, (page + 1) * maxResults).map((videoId, index) => {
+    if (!knownVideos.has(videoId)) {
+      knownVideos.set(videoId, { ...videoSnippet(videoId), channelId: channel, channelTitle: `Mock Channel ${channel.slice(-2)}` });
+    }
+    const snippet = knownVideos.get(videoId);
+    return {
+      kind: 'youtube#playlistItem',
+      id: `${playlistId}-${page * maxResults + index}`,
+      snippet: {
+        ...snippet,
+        playlistId,
+        position: page * maxResults + index,
+        resourceId: { kind: 'youtube#video', videoId },
+      },
+      contentDetails: { videoId, videoPublishedAt: snippet.publishedAt },
+    };
+  });
+
+  return {
+    kind: 'youtube#playlistItemListResponse',
+    nextPageToken: (page + 1) * maxResults < uploads.length ? `page${page + 1}` : undefined,
+    pageInfo: { totalResults: uploads.length, resultsPerPage: maxResults },
+    items,
+  };
+};
+
+const HANDLERS = { search, videos, channels, playlistItems };
+
+const checkKey = (key, endpoint) => {
+  if (!key) return ERRORS.forbidden();
+  if (key.startsWith('invalid')) return ERRORS.keyInvalid();
+  if (key.startsWith('disabled')) return ERRORS.accessNotConfigured();
+  if (key.startsWith('quota')) return ERRORS.quotaExceeded();
+
+  // 瞬时错误不消耗配额，便于测试退避重试
+  const count = (requestCounts.get(key) || 0) + 1;
+  requestCounts.set(key, count);
+  if (key.startsWith('ratelimit') && count % 2 === 1) return ERRORS.rateLimited();
+  if (key.startsWith('flaky') && Math.random() < 1 / 3) return ERRORS.backendError();
+
+  const used = quotaUsed.get(key) || 0;
+  if (used + QUOTA_COSTS[endpoint] > QUOTA_LIMIT) return ERRORS.quotaExceeded();
+  quotaUsed.set(key, used + QUOTA_COSTS[endpoint]);
+  return null;
+};
+
+const send = (response, status, body) => {
+  response.writeHead(status, {
+    'Content-Type': 'application/json; charset=UTF-8',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': '*',
+  });
+  response.end(body === null ? undefined : JSON.stringify(body));
+};
+
+createServer((request, response) => {
+  const url = new URL(request.url || '/', `http://localhost:${PORT}`);
+
+  if (request.method === 'OPTIONS') {
+    return send(response, 204, null);
+  }
+  if (request.method === 'POST' && url.pathname === '/__reset') {
+    quotaUsed.clear();
+    requestCounts.clear();
+    return send(response, 200, { reset: true });
+  }
+
+  const endpoint = url.pathname.replace(/^\/youtube\/v3\//, '');
+  const handler = HANDLERS[endpoint];
+  if (!handler) {
+    return send(response, ...ERRORS.notFound());
+  }
+
+  const key = url.searchParams.get('key');
+  const error = checkKey(key, endpoint);
+  if (error) {
+    console.log(`✗ ${endpoint} key=${key?.slice(0, 8) || '-'} -> ${error[0]}`);
+    return send(response, ...error);
+  }
+
+  console.log(`✓ ${endpoint} key=${key.slice(0, 8)} used=${quotaUsed.get(key)}/${QUOTA_LIMIT}`);
+  send(response, 200, handler(url.searchParams));
+}).listen(PORT, () => {
+  console.log(`🧪 Mock YouTube Data API listening on http://localhost:${PORT}/youtube/v3`);
+});
@@ -1,42 +1,126 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { SearchForm } from './components/SearchForm';
 import { VideoResultsList } from './components/VideoResultsList';
+import { ResultsList } from './components/ResultsList';
 import { LoadingSpinner } from './components/LoadingSpinner';
 import { ErrorMessage } from './components/ErrorMessage';
 import { Header } from './components/Header';
 import { SettingsModal } from './components/SettingsModal';
+import { DebugPanel } from './components/DebugPanel';
 import { SearchProgress } from './components/SearchProgress';
+import { RetryBudgetNotice } from './components/RetryBudgetNotice';
+import { PartialResultsBanner } from './components/PartialResultsBanner';
+import { UnresolvedLinksNotice } from './components/UnresolvedLinksNotice';
+import { ChannelDrawer } from './components/ChannelDrawer';
 import { api, ApiError } from './utils/api';
+import { DEFAULT_PUBLISH_WINDOW_PRESET, getPublishWindow } from './utils/publishWindow';
+import { downloadBlob } from './utils/format';
 import { SettingsService } from './services/settings.service';
 import { YouTubeService } from './services/youtube.service';
+import { KeyHealthService } from './services/key-health.service';
 import { PromptSelector } from './config/prompts';
-import type { VideoResult, SearchFilters } from './types';
+import type {
+  AppError,
+  CreatorImport,
+  CreatorImportResult,
+  InfluencerResult,
+  SimilarCreatorsResponse,
+  VideoResult,
+  SearchFilters,
+  SearchRequest,
+  SearchResponse,
+  UnresolvedLink
+} from './types';
+import { createLogger } from './services/logger.service';
+
+const log = createLogger('app');
 
 function App() {
   const [results, setResults] = useState<VideoResult[]>([]);
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [errorDetails, setErrorDetails] = useState<any>(null);
+  const [error, setError] = useState<AppError | null>(null);
   const [expandedKeywords, setExpandedKeywords] = useState<string[]>([]);
   const [hasSearched, setHasSearched] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  const [showDebug, setShowDebug] = useState(false);
   const [hasValidKeys, setHasValidKeys] = useState(false);
   const [recommendations, setRecommendations] = useState<string[]>([]);
   const [searchStep, setSearchStep] = useState<'idle' | 'searching' | 'processing' | 'complete'>('idle');
+  const [lastSearch, setLastSearch] = useState<{ request: SearchRequest; response: SearchResponse } | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [retrying, setRetrying] = useState(false);
+  const [showPartialResults, setShowPartialResults] = useState(false);
+  // 频道链接/CSV导入模式的结果，与视频搜索结果互斥
+  const [creatorImport, setCreatorImport] = useState<CreatorImportResult | null>(null);
+  const [showUnresolved, setShowUnresolved] = useState(false);
+  // 相似创作者搜索：显示在当前结果上方，不替换当前结果
+  const [similarCreators, setSimilarCreators] = useState<SimilarCreatorsResponse | null>(null);
+  const [similarSeed, setSimilarSeed] = useState<InfluencerResult | null>(null);
+  // 频道详情抽屉中打开的频道
+  const [openChannelId, setOpenChannelId] = useState<string | null>(null);
+  // 当前进行中的搜索/加载更多，新的请求或取消时中止
+  const activeRequest = useRef<AbortController | null>(null);
 
   useEffect(() => {
     // Check if user has valid API keys on app load
     setHasValidKeys(SettingsService.hasRequiredKeys());
     
     // 清理过期和损坏的缓存数据
-    YouTubeService.clearExpiredCache();
+    void YouTubeService.clearExpiredCache();
     
     // 清理过期缓存（保留此逻辑用于清理过期的缓存项）
+
+    // 配额重置后自动恢复已用尽的key，并定期重新检测出错的key
+    const runKeyMaintenance = async () => {
+      if (await KeyHealthService.runMaintenance()) {
+        setHasValidKeys(SettingsService.hasRequiredKeys());
+      }
+    };
+    runKeyMaintenance();
+    const maintenanceTimer = window.setInterval(runKeyMaintenance, KeyHealthService.CHECK_INTERVAL_MS);
+    
+    return () => {
+      window.clearInterval(maintenanceTimer);
+      activeRequest.current?.abort();
+    };
   }, []);
 
+  // 中止上一个未完成的请求，避免旧结果晚到覆盖新结果
+  const startRequest = (): AbortController => {
+    activeRequest.current?.abort();
+    setLoading(false);
+    setLoadingMore(false);
+    setRetrying(false);
+    setSimilarSeed(null);
+    const controller = new AbortController();
+    activeRequest.current = controller;
+    return controller;
+  };
+
+  // ApiError 携带按类型区分的错误，其他异常归为 Unknown
+  const showError = (err: unknown, fallbackMessage: string) => {
+    setError(err instanceof ApiError ? err.error : { kind: 'Unknown', message: fallbackMessage });
+  };
+
+  const handleCancelSearch = () => {
+    if (!activeRequest.current) return;
+    log.info('⏹️ Search cancelled by user');
+    activeRequest.current.abort();
+    activeRequest.current = null;
+    setLoading(false);
+    setLoadingMore(false);
+    setRetrying(false);
+    setSimilarSeed(null);
+    setSearchStep('idle');
+  };
+
   const handleSearch = async (topic: string, filters: SearchFilters) => {
+    const controller = startRequest();
     setLoading(true);
     setError(null);
+    setShowPartialResults(false);
+    setCreatorImport(null);
+    setSimilarCreators(null);
     setHasSearched(true);
     setSearchStep('searching');
     // 搜索时自动关闭设置面板
@@ -44,66 +128,244 @@ function App() {
 
     // 检测品牌并设置推荐内容
     const detectedBrand = PromptSelector.detectBrand(topic);
-    console.log(`🔍 Direct searching for: "${topic}"`);
-    console.log(`🏷️ Detected brand: ${detectedBrand || 'none'}`);
+    log.info(`🔍 Direct searching for: "${topic}"`);
+    log.info(`🏷️ Detected brand: ${detectedBrand || 'none'}`);
     
     if (detectedBrand) {
       const brandRecommendations = PromptSelector.getBrandRecommendations(detectedBrand);
       setRecommendations(brandRecommendations);
-      console.log(`💡 Brand recommendations:`, brandRecommendations);
+      log.info(`💡 Brand recommendations:`, brandRecommendations);
     } else {
       setRecommendations([]);
     }
 
     try {
-      console.log(`🎯 Step: Direct YouTube search for "${topic}"...`);
+      log.info(`🎯 Step: Direct YouTube search for "${topic}"...`);
       
-      const searchRequest = {
+      const searchRequest: SearchRequest = {
         topic,
         filters: {
           region: filters.region,
           minSubscribers: filters.minSubscribers,
           minViews: filters.minViews,
-          maxResults: filters.maxResults
+          maxResults: filters.maxResults,
+          publishedAfter: filters.publishedAfter,
+          publishedBefore: filters.publishedBefore,
+          durationFilter: filters.durationFilter,
+          minLikeRate: filters.minLikeRate,
+          minCommentRate: filters.minCommentRate,
+          activeWithinDays: filters.activeWithinDays,
+          minUploadsPerMonth: filters.minUploadsPerMonth
         }
       };
 
-      const response = await api.searchInfluencers(searchRequest);
+      const response = await api.searchInfluencers(searchRequest, controller.signal);
+      if (controller.signal.aborted) return;
       
       setSearchStep('processing');
-      console.log(`⚡ Step: Processing results...`);
+      log.info(`⚡ Step: Processing results...`);
       
       setResults(response.results);
       setExpandedKeywords(response.expandedKeywords);
+      setLastSearch({ request: searchRequest, response });
       setSearchStep('complete');
       
-      if (response.results.length === 0) {
-        setError('No influencers found matching your criteria. Try adjusting your filters or using different keywords.');
+      // 部分查询失败时显示已获取的结果，并提示可以只重试失败的部分
+      setShowPartialResults(Boolean(response.partialFailure));
+
+      if (response.results.length === 0 && !response.partialFailure) {
+        setError({
+          kind: 'Unknown',
+          message: 'No influencers found matching your criteria. Try adjusting your filters or using different keywords.'
+        });
       } else {
-        console.log(`✅ Search completed! Found ${response.results.length} influencers`);
+        log.info(`✅ Search completed! Found ${response.results.length} influencers`);
       }
     } catch (err) {
-      if (err instanceof ApiError) {
-        setError(err.userMessage || err.message);
-        setErrorDetails({
-          status: err.statusCode,
-          error: err.details,
-          userMessage: err.userMessage
+      // 已取消或被新搜索取代的请求不再更新界面
+      if (controller.signal.aborted) return;
+
+      showError(err, 'An unexpected error occurred. Please try again.');
+      setResults([]);
+      setLastSearch(null);
+    } finally {
+      if (activeRequest.current === controller) {
+        activeRequest.current = null;
+        setLoading(false);
+        setSearchStep('idle');
+      }
+    }
+  };
+
+  // 频道链接/CSV导入模式：每行生成一个频道结果，无法解析的行单独列出
+  const handleImportCreators = async (source: CreatorImport, topic?: string) => {
+    const controller = startRequest();
+    setLoading(true);
+    setError(null);
+    setShowPartialResults(false);
+    setResults([]);
+    setExpandedKeywords([]);
+    setRecommendations([]);
+    setLastSearch(null);
+    setCreatorImport(null);
+    setSimilarCreators(null);
+    setHasSearched(true);
+    setSearchStep('searching');
+    setShowSettings(false);
+
+    try {
+      const response = await api.importCreators(source, topic, controller.signal);
+      if (controller.signal.aborted) return;
+
+      setCreatorImport(response);
+      setShowUnresolved(true);
+      setSearchStep('complete');
+
+      // 没有解析出任何频道时，汇总各行的失败原因（每行的详情见下方的未解析列表）
+      if (response.results.length === 0) {
+        const reasons = [...new Set(response.rows.flatMap(row => row.error ? [row.error] : []))];
+        setError({
+          kind: 'Unknown',
+          message: reasons.length > 0
+            ? `No channels could be resolved from the links you entered: ${reasons.join('; ')}`
+            : 'No channels could be resolved from the links you entered.'
         });
-      } else {
-        setError('An unexpected error occurred. Please try again.');
-        setErrorDetails(null);
       }
-      setResults([]);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+
+      showError(err, 'Failed to resolve channel links. Please try again.');
     } finally {
-      setLoading(false);
-      setSearchStep('idle');
+      if (activeRequest.current === controller) {
+        activeRequest.current = null;
+        setLoading(false);
+        setSearchStep('idle');
+      }
+    }
+  };
+
+  const handleExportImport = async () => {
+    if (!creatorImport) return;
+
+    try {
+      const blob = await api.exportImportToCsv(creatorImport);
+      const baseName = creatorImport.source.fileName?.replace(/\.[^.]+$/, '') || 'youtube-channels';
+      downloadBlob(blob, `${baseName}-enriched-${new Date().toISOString().split('T')[0]}.csv`);
+    } catch (err) {
+      showError(err, 'Failed to export data. Please try again.');
+    }
+  };
+
+  // 无法解析的行，按原始行号列出
+  const linkColumn = creatorImport?.source.linkColumn ?? 0;
+  const unresolvedRows: UnresolvedLink[] = (creatorImport?.rows || []).flatMap((row, index) => row.error
+    ? [{ input: `#${index + 1} ${row.values[linkColumn] || ''}`.trim(), reason: row.error }]
+    : []);
+
+  // 抽屉中展示的匹配视频：视频搜索取该频道的视频结果，导入和相似创作者取频道卡片上的视频
+  // 相似创作者会排除已有结果中的频道，同一频道只会出现在一组结果里
+  const openChannelVideos = results.filter(video => video.channel.channelId === openChannelId);
+  const openChannelMatches = openChannelVideos.length > 0
+    ? openChannelVideos
+    : [...(creatorImport?.results || []), ...(similarCreators?.results || [])]
+        .find(influencer => influencer.channelId === openChannelId)?.recentVideos || [];
+
+  // 从任一频道卡片查找相似创作者，排除当前结果中已有的频道
+  const handleFindSimilar = async (seed: InfluencerResult) => {
+    const controller = startRequest();
+    setSimilarSeed(seed);
+    setSimilarCreators(null);
+    setError(null);
+
+    const excludeChannelIds = [
+      ...results.map(video => video.channel.channelId),
+      ...(creatorImport?.results || []).map(influencer => influencer.channelId)
+    ];
+
+    try {
+      const response = await api.findSimilarCreators(seed, excludeChannelIds, lastSearch?.request, controller.signal);
+      if (controller.signal.aborted) return;
+
+      setSimilarCreators(response);
+      if (response.partialFailure) {
+        setError(response.partialFailure);
+      } else if (response.results.length === 0) {
+        setError({ kind: 'Unknown', message: `No new creators similar to "${seed.channelTitle}" were found.` });
+      }
+    } catch (err) {
+      if (controller.signal.aborted) return;
+
+      showError(err, 'Failed to find similar creators. Please try again.');
+    } finally {
+      if (activeRequest.current === controller) {
+        activeRequest.current = null;
+        setSimilarSeed(null);
+      }
+    }
+  };
+
+  const handleExportSimilar = async () => {
+    if (!similarCreators) return;
+
+    try {
+      const blob = await api.exportInfluencersToCsv(similarCreators.results);
+      downloadBlob(blob, `youtube-similar-creators-${new Date().toISOString().split('T')[0]}.csv`);
+    } catch (err) {
+      showError(err, 'Failed to export data. Please try again.');
+    }
+  };
+
+  const handleLoadMore = async () => {
+    if (!lastSearch) return;
+
+    const controller = startRequest();
+    setLoadingMore(true);
+    try {
+      const response = await api.loadMoreResults(lastSearch.request, lastSearch.response, controller.signal);
+      if (controller.signal.aborted) return;
+      setResults(response.results);
+      setLastSearch({ request: lastSearch.request, response });
+      setShowPartialResults(Boolean(response.partialFailure));
+    } catch (err) {
+      if (controller.signal.aborted) return;
+
+      showError(err, 'Failed to load more results. Please try again.');
+    } finally {
+      if (activeRequest.current === controller) {
+        activeRequest.current = null;
+        setLoadingMore(false);
+      }
+    }
+  };
+
+  // 只重试失败的查询，保留已获取的结果
+  const handleRetryFailed = async () => {
+    if (!lastSearch) return;
+
+    const controller = startRequest();
+    setRetrying(true);
+    setError(null);
+    try {
+      const response = await api.retryFailedQueries(lastSearch.request, lastSearch.response, controller.signal);
+      if (controller.signal.aborted) return;
+      setResults(response.results);
+      setLastSearch({ request: lastSearch.request, response });
+      setShowPartialResults(Boolean(response.partialFailure));
+    } catch (err) {
+      if (controller.signal.aborted) return;
+
+      showError(err, 'Failed to retry the failed searches. Please try again.');
+    } finally {
+      if (activeRequest.current === controller) {
+        activeRequest.current = null;
+        setRetrying(false);
+      }
     }
   };
 
   const handleExport = async () => {
     if (results.length === 0) {
-      setError('No data to export');
+      setError({ kind: 'BadRequest', message: 'No data to export' });
       return;
     }
 
@@ -121,15 +383,9 @@ function App() {
       window.URL.revokeObjectURL(url);
     } catch (err) {
       if (err instanceof ApiError) {
-        setError(`Export failed: ${err.userMessage || err.message}`);
-        setErrorDetails({
-          status: err.statusCode,
-          error: err.details,
-          userMessage: err.userMessage
-        });
+        setError({ ...err.error, message: `Export failed: ${err.error.message}` });
       } else {
-        setError('Failed to export data. Please try again.');
-        setErrorDetails(null);
+        showError(err, 'Failed to export data. Please try again.');
       }
     } finally {
       setLoading(false);
@@ -137,34 +393,28 @@ function App() {
   };
 
   const handleSettingsChange = () => {
-    console.log('🔄 Settings change triggered');
-    
     // 重新检查API key状态
     const newHasValidKeys = SettingsService.hasRequiredKeys();
-    console.log(`🔑 API keys validation: ${newHasValidKeys ? 'VALID' : 'INVALID'}`);
     
     setHasValidKeys(newHasValidKeys);
     
     // 清理现有结果，强制重新搜索以使用新API key
     setResults([]);
+    setCreatorImport(null);
+    setSimilarCreators(null);
     setExpandedKeywords([]);
+    setLastSearch(null);
     setError(null);
     setHasSearched(false);
     
-    // 验证设置是否正确加载
-    const currentSettings = SettingsService.getSettings();
-    console.log('🔍 Current settings after change:', {
-      keyCount: currentSettings.youtubeApiKeys.length,
-      activeKeys: currentSettings.youtubeApiKeys.filter(k => k.status === 'active').length
-    });
-    
-    console.log('🔄 Settings updated - cleared results and forced refresh');
+    log.info(`🔄 Settings updated (API keys ${newHasValidKeys ? 'valid' : 'missing'}) - cleared results`);
   };
 
   return (
     <div className="min-h-screen bg-gray-50">
       <Header 
         onSettingsClick={() => setShowSettings(!showSettings)}
+        onDebugClick={() => setShowDebug(true)}
         hasValidKeys={hasValidKeys}
         showSettings={showSettings}
       />
@@ -172,7 +422,7 @@ function App() {
       <main className="container mx-auto px-4 py-8">
         <div className="max-w-6xl mx-auto">
           
-          <SearchForm onSearch={handleSearch} loading={loading} />
+          <SearchForm onSearch={handleSearch} onImportCreators={handleImportCreators} loading={loading} />
           
           {expandedKeywords.length > 0 && expandedKeywords[0] !== '' && (
             <div className="mb-8 card">
@@ -207,7 +457,8 @@ function App() {
                       region: 'US',
                       minSubscribers: 1000,
                       minViews: 10000,
-                      maxResults: 50
+                      maxResults: 50,
+                      ...getPublishWindow(DEFAULT_PUBLISH_WINDOW_PRESET)
                     })}
                     className="text-left px-3 py-2 bg-gray-100 hover:bg-gray-200 text-sm rounded-lg transition-colors duration-200 border border-gray-200 hover:border-gray-300"
                     disabled={loading}
@@ -219,30 +470,94 @@ function App() {
             </div>
           )}
 
+          {/* 加载更多和重试失败的查询同样消耗配额，显示进度、重试预算和取消按钮 */}
           <SearchProgress 
-            currentStep={searchStep} 
-            visible={loading} 
+            currentStep={loading ? searchStep : 'searching'} 
+            visible={loading || loadingMore || retrying} 
+            title={loading ? undefined : loadingMore ? '加载更多结果' : '重试失败的查询'}
+            onCancel={handleCancelSearch}
           />
 
           {loading && <LoadingSpinner />}
           
           {error && (
             <ErrorMessage 
-              message={error} 
-              onDismiss={() => {
-                setError(null);
-                setErrorDetails(null);
-              }}
-              details={errorDetails}
+              error={error} 
+              onDismiss={() => setError(null)}
               showDebugInfo={true}
             />
           )}
           
+          {!loading && showPartialResults && lastSearch && (
+            <PartialResultsBanner
+              outcomes={lastSearch.response.outcomes}
+              retrying={retrying}
+              onRetry={handleRetryFailed}
+              onDismiss={() => setShowPartialResults(false)}
+            />
+          )}
+
+          {!loading && showUnresolved && (
+            <UnresolvedLinksNotice
+              items={unresolvedRows}
+              onDismiss={() => setShowUnresolved(false)}
+            />
+          )}
+
+          {similarSeed && (
+            <div className="card mb-8">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-3 text-sm text-gray-700">
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-purple-600"></div>
+                  <span>🧬 正在查找与「{similarSeed.channelTitle}」相似的创作者...</span>
+                </div>
+                <button onClick={handleCancelSearch} className="text-sm text-gray-500 hover:text-gray-700">
+                  取消
+                </button>
+              </div>
+              <RetryBudgetNotice className="text-gray-500 mt-3" />
+            </div>
+          )}
+
+          {!loading && similarCreators && similarCreators.results.length > 0 && (
+            <div className="mb-8">
+              <ResultsList
+                results={similarCreators.results}
+                onExport={handleExportSimilar}
+                loading={loading}
+                title={`🧬 Similar to ${similarCreators.seed.channelTitle}`}
+                subtitle={`${similarCreators.results.length} creators found via: ${similarCreators.searchTerms.join(' · ')}`}
+                onFindSimilar={handleFindSimilar}
+                onOpenChannel={setOpenChannelId}
+              />
+              <div className="text-center mt-4">
+                <button onClick={() => setSimilarCreators(null)} className="text-sm text-gray-500 hover:text-gray-700">
+                  Close similar creators
+                </button>
+              </div>
+            </div>
+          )}
+
+          {!loading && hasSearched && creatorImport && creatorImport.results.length > 0 && (
+            <ResultsList
+              results={creatorImport.results}
+              onExport={handleExportImport}
+              loading={loading}
+              onFindSimilar={handleFindSimilar}
+              onOpenChannel={setOpenChannelId}
+            />
+          )}
+
           {!loading && hasSearched && results.length > 0 && (
             <VideoResultsList 
               results={results} 
               onExport={handleExport}
               loading={loading}
+              hasMore={Object.keys(lastSearch?.response.nextPageTokens || {}).length > 0}
+              onLoadMore={handleLoadMore}
+              loadingMore={loadingMore}
+              onFindSimilar={handleFindSimilar}
+              onOpenChannel={setOpenChannelId}
             />
           )}
           
@@ -276,6 +591,17 @@ function App() {
         onClose={() => setShowSettings(false)}
         onSave={handleSettingsChange}
       />
+
+      <ChannelDrawer
+        channelId={openChannelId}
+        matchedVideos={openChannelMatches}
+        onClose={() => setOpenChannelId(null)}
+      />
+
+      <DebugPanel
+        isOpen={showDebug}
+        onClose={() => setShowDebug(false)}
+      />
     </div>
   );
 }
@@ -0,0 +1,261 @@
+import { useEffect, useState } from 'react';
+import { Drawer, Spin } from 'antd';
+import type { AppError, ChannelProfile, ChannelUpload, RecentVideo } from '../types';
+import { api, ApiError } from '../utils/api';
+import { formatNumber, formatDate, getCountryFlag } from '../utils/format';
+import { formatUploadCount } from '../utils/uploadActivity';
+import { isAbortError } from '../services/youtube-api.service';
+import { ErrorMessage } from './ErrorMessage';
+
+interface ChannelDrawerProps {
+  channelId: string | null; // 为 null 时抽屉关闭
+  // 当前结果中属于该频道的视频；视频搜索的结果带有匹配度
+  matchedVideos: Array<RecentVideo & { relevanceScore?: number }>;
+  onClose: () => void;
+}
+
+const SPARKLINE_WIDTH = 300;
+const SPARKLINE_HEIGHT = 60;
+
+// 每个视频的播放量折线（从旧到新），体现频道播放量是否稳定
+const ViewsSparkline = ({ uploads }: { uploads: ChannelUpload[] }) => {
+  if (uploads.length < 2) return null;
+
+  const chronological = [...uploads].reverse();
+  const maxViews = Math.max(1, ...chronological.map(upload => upload.viewCount));
+  const points = chronological
+    .map((upload, index) => {
+      const x = (index / (chronological.length - 1)) * SPARKLINE_WIDTH;
+      const y = SPARKLINE_HEIGHT - (upload.viewCount / maxViews) * SPARKLINE_HEIGHT;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-16 bg-gray-50 rounded"
+        role="img"
+        aria-label="Views per video"
+      >
+        <polyline points={points} fill="none" stroke="currentColor" strokeWidth={1.5} className="text-primary-600" />
+      </svg>
+      <div className="flex justify-between text-xs text-gray-500 mt-1">
+        <span>{formatDate(chronological[0].publishedAt)}</span>
+        <span>max {formatNumber(maxViews)} views</span>
+        <span>{formatDate(chronological[chronological.length - 1].publishedAt)}</span>
+      </div>
+    </div>
+  );
+};
+
+// 频道详情抽屉：打开时才请求频道资料和最近上传的视频，关闭或切换频道时中止请求
+export const ChannelDrawer = ({ channelId, matchedVideos, onClose }: ChannelDrawerProps) => {
+  const [profile, setProfile] = useState<ChannelProfile | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<AppError | null>(null);
+
+  useEffect(() => {
+    if (!channelId) return;
+
+    const controller = new AbortController();
+    setProfile(null);
+    setError(null);
+    setLoading(true);
+
+    api.getChannelProfile(channelId, controller.signal)
+      .then(setProfile)
+      .catch(err => {
+        if (isAbortError(err)) return;
+        setError(err instanceof ApiError ? err.error : { kind: 'Unknown', message: 'Failed to load channel details.' });
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      });
+
+    return () => controller.abort();
+  }, [channelId]);
+
+  const stats = profile
+    ? [
+        { label: 'Subscribers', value: formatNumber(profile.subscriberCount) },
+        { label: 'Total Views', value: formatNumber(profile.viewCount) },
+        { label: 'Videos', value: formatNumber(profile.videoCount) },
+        { label: 'Joined', value: profile.publishedAt ? new Date(profile.publishedAt).toLocaleDateString() : '-' }
+      ]
+    : [];
+
+  return (
+    <Drawer
+      open={channelId !== null}
+      onClose={onClose}
+      width={560}
+      destroyOnHidden
+      title={profile ? profile.channelTitle : 'Channel Details'}
+      extra={profile && (
+        <a
+          href={profile.channelUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-sm text-primary-600 hover:text-primary-700 font-medium"
+        >
+          Open on YouTube →
+        </a>
+      )}
+    >
+      {loading && (
+        <div className="flex justify-center py-12">
+          <Spin tip="Loading channel..." size="large">
+            <div className="w-32 h-16" />
+          </Spin>
+        </div>
+      )}
+
+      {error && <ErrorMessage error={error} onDismiss={onClose} />}
+
+      {profile && (
+        <div className="space-y-6">
+          {/* Profile */}
+          <div className="flex items-start space-x-4">
+            <img
+              src={profile.thumbnailUrl || '/placeholder-avatar.png'}
+              alt={profile.channelTitle}
+              className="w-16 h-16 rounded-full object-cover bg-gray-200 flex-shrink-0"
+              onError={(e) => {
+                const target = e.target as HTMLImageElement;
+                target.src = '/placeholder-avatar.png';
+              }}
+            />
+            <div className="min-w-0">
+              <div className="text-sm text-gray-600">
+                {getCountryFlag(profile.country)} {profile.country}
+                {profile.customUrl && <span className="ml-2 text-gray-500">{profile.customUrl}</span>}
+              </div>
+              <p className="mt-2 text-sm text-gray-700 whitespace-pre-line break-words">
+                {profile.description || 'No description.'}
+              </p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-4 gap-3">
+            {stats.map(stat => (
+              <div key={stat.label} className="text-center">
+                <div className="text-base font-semibold text-gray-900">{stat.value}</div>
+                <div className="text-xs text-gray-600">{stat.label}</div>
+              </div>
+            ))}
+          </div>
+
+          {/* Upload cadence */}
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">📅 Upload Cadence</h4>
+            <div className="grid grid-cols-4 gap-3 text-center">
+              <div>
+                <div className="text-base font-semibold text-gray-900">
+                  {formatUploadCount(profile.activity.uploadsLast30Days, profile.activity)} / {formatUploadCount(profile.activity.uploadsLast90Days, profile.activity)}
+                </div>
+                <div className="text-xs text-gray-600">Uploads 30d / 90d</div>
+              </div>
+              <div>
+                <div className="text-base font-semibold text-gray-900">{profile.activity.uploadsPerMonth.toFixed(1)}</div>
+                <div className="text-xs text-gray-600">Uploads / Month</div>
+              </div>
+              <div>
+                <div className="text-base font-semibold text-gray-900">
+                  {profile.activity.medianGapDays !== null ? `${profile.activity.medianGapDays.toFixed(1)}d` : '-'}
+                </div>
+                <div className="text-xs text-gray-600">Median Gap</div>
+              </div>
+              <div>
+                <div className="text-base font-semibold text-gray-900">
+                  {profile.activity.daysSinceLastUpload !== null ? `${profile.activity.daysSinceLastUpload}d` : '-'}
+                </div>
+                <div className="text-xs text-gray-600">Since Last Upload</div>
+              </div>
+            </div>
+          </div>
+
+          {/* Views per video */}
+          {profile.uploads.length > 1 && (
+            <div>
+              <h4 className="text-sm font-semibold text-gray-700 mb-2">📈 Views per Video</h4>
+              <ViewsSparkline uploads={profile.uploads} />
+            </div>
+          )}
+
+          {/* Matched videos */}
+          {matchedVideos.length > 0 && (
+            <div>
+              <h4 className="text-sm font-semibold text-gray-700 mb-2">🎯 Matched in This Search ({matchedVideos.length})</h4>
+              <div className="space-y-2">
+                {matchedVideos.map(video => (
+                  <div key={video.videoId} className="p-2 bg-yellow-50 border border-yellow-100 rounded">
+                    <a
+                      href={`https://www.youtube.com/watch?v=${video.videoId}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-sm text-gray-900 hover:text-primary-600 font-medium line-clamp-2"
+                    >
+                      {video.title}
+                    </a>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {formatNumber(video.viewCount)} views • {formatDate(video.publishedAt)}
+                      {video.relevanceScore !== undefined && ` • ${video.relevanceScore}% match`}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Recent uploads */}
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">🎥 Recent Uploads ({profile.uploads.length})</h4>
+            {profile.uploads.length === 0 ? (
+              <p className="text-sm text-gray-500">This channel has no public uploads.</p>
+            ) : (
+              <div className="space-y-2">
+                {profile.uploads.map(upload => (
+                  <div key={upload.videoId} className="flex items-start space-x-3 p-2 bg-gray-50 rounded hover:bg-gray-100 transition-colors">
+                    <img
+                      src={upload.thumbnailUrl || '/placeholder-video.png'}
+                      alt={upload.title}
+                      className="w-16 h-9 rounded object-cover bg-gray-200 flex-shrink-0"
+                      onError={(e) => {
+                        const target = e.target as HTMLImageElement;
+                        target.src = '/placeholder-video.png';
+                      }}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <a
+                        href={`https://www.youtube.com/watch?v=${upload.videoId}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-sm text-gray-900 line-clamp-2 leading-tight hover:text-primary-600 font-medium block"
+                      >
+                        {upload.title}
+                      </a>
+                      <div className="flex items-center space-x-2 mt-1 text-xs text-gray-500">
+                        <span>{formatNumber(upload.viewCount)} views</span>
+                        <span>•</span>
+                        <span>{formatNumber(upload.likeCount)} likes</span>
+                        <span>•</span>
+                        <span>{formatNumber(upload.commentCount)} comments</span>
+                        <span>•</span>
+                        <span>{formatDate(upload.publishedAt)}</span>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </Drawer>
+  );
+};
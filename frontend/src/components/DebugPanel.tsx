@@ -0,0 +1,136 @@
+import { useState, useEffect } from 'react';
+import {
+  LoggerService,
+  LOG_LEVELS,
+  LOG_NAMESPACES,
+  type LogEntry,
+  type LogLevel,
+  type LogNamespace
+} from '../services/logger.service';
+import { downloadBlob } from '../utils/format';
+
+interface DebugPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const LEVEL_STYLES: Record<LogLevel, string> = {
+  debug: 'text-gray-500',
+  info: 'text-gray-800',
+  warn: 'text-yellow-700',
+  error: 'text-red-700'
+};
+
+// 调试面板：查看最近的日志（已脱敏），可按级别/命名空间筛选并下载附在问题反馈中
+export const DebugPanel = ({ isOpen, onClose }: DebugPanelProps) => {
+  const [entries, setEntries] = useState<LogEntry[]>(() => [...LoggerService.getEntries()]);
+  const [minLevel, setMinLevel] = useState<LogLevel>('info');
+  const [namespace, setNamespace] = useState<LogNamespace | 'all'>('all');
+  const [consoleLevel, setConsoleLevel] = useState<LogLevel>(LoggerService.getConsoleLevel());
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setEntries([...LoggerService.getEntries()]);
+    return LoggerService.subscribe(setEntries);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const visible = entries.filter(entry =>
+    LOG_LEVELS.indexOf(entry.level) >= LOG_LEVELS.indexOf(minLevel) &&
+    (namespace === 'all' || entry.namespace === namespace)
+  );
+
+  const handleDownload = () => {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    downloadBlob(
+      new Blob([LoggerService.exportText()], { type: 'text/plain;charset=utf-8' }),
+      `youtube-influencer-finder-${timestamp}.log`
+    );
+  };
+
+  const handleConsoleLevelChange = (level: LogLevel) => {
+    LoggerService.setConsoleLevel(level);
+    setConsoleLevel(level);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-lg max-w-4xl w-full mx-4 max-h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">🐞 调试日志</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 px-6 py-3 border-b border-gray-200 text-sm">
+          <label className="flex items-center space-x-1">
+            <span className="text-gray-700">级别:</span>
+            <select
+              value={minLevel}
+              onChange={(e) => setMinLevel(e.target.value as LogLevel)}
+              className="border border-gray-300 rounded px-2 py-1"
+            >
+              {LOG_LEVELS.map(level => <option key={level} value={level}>≥ {level}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center space-x-1">
+            <span className="text-gray-700">模块:</span>
+            <select
+              value={namespace}
+              onChange={(e) => setNamespace(e.target.value as LogNamespace | 'all')}
+              className="border border-gray-300 rounded px-2 py-1"
+            >
+              <option value="all">全部</option>
+              {LOG_NAMESPACES.map(ns => <option key={ns} value={ns}>{ns}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center space-x-1">
+            <span className="text-gray-700">控制台输出:</span>
+            <select
+              value={consoleLevel}
+              onChange={(e) => handleConsoleLevelChange(e.target.value as LogLevel)}
+              className="border border-gray-300 rounded px-2 py-1"
+            >
+              {LOG_LEVELS.map(level => <option key={level} value={level}>≥ {level}</option>)}
+            </select>
+          </label>
+          <span className="text-gray-500">{visible.length}/{entries.length} 条</span>
+          <div className="flex-1" />
+          <button onClick={() => LoggerService.clear()} className="btn-secondary text-sm">
+            清空
+          </button>
+          <button onClick={handleDownload} disabled={entries.length === 0} className="btn-primary text-sm disabled:opacity-50">
+            下载日志
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-3 font-mono text-xs">
+          {visible.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">暂无日志</p>
+          ) : (
+            visible.map(entry => (
+              <div key={entry.id} className={`py-0.5 whitespace-pre-wrap break-all ${LEVEL_STYLES[entry.level]}`}>
+                <span className="text-gray-400">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                {' '}<span className="uppercase">{entry.level}</span>
+                {' '}<span className="text-primary-600">[{entry.namespace}]</span>
+                {' '}{entry.message}
+                {entry.data && <span className="text-gray-500"> {entry.data}</span>}
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="px-6 py-3 border-t border-gray-200 text-xs text-gray-500">
+          API密钥在写入日志前已替换为 [REDACTED]，下载的文件可以直接附在问题反馈中。仅保留最近1000条记录。
+        </div>
+      </div>
+    </div>
+  );
+};
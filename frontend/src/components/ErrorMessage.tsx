@@ -1,72 +1,105 @@
+import type { AppError, AppErrorKind } from '../types';
+
 interface ErrorMessageProps {
-  message: string;
+  error: AppError;
   onDismiss: () => void;
-  details?: {
-    status?: number;
-    error?: any;
-    userMessage?: string;
-  };
   showDebugInfo?: boolean;
 }
 
-export const ErrorMessage = ({ message, onDismiss, details, showDebugInfo = false }: ErrorMessageProps) => {
-  const getErrorIcon = () => {
-    if (details?.status === 403) return '🚫';
-    if (details?.status === 401) return '🔑';
-    if (details?.status === 429) return '⏱️';
-    if (details?.status && details.status >= 500) return '🌐';
-    return '⚠️';
-  };
-
-  const getErrorTitle = () => {
-    if (details?.status === 403) return 'Access Denied';
-    if (details?.status === 401) return 'Authentication Failed';
-    if (details?.status === 429) return 'Rate Limited';
-    if (details?.status && details.status >= 500) return 'Server Error';
-    return 'Error';
-  };
-
-  const getSuggestions = () => {
-    if (details?.status === 403) {
-      return [
-        '检查API密钥是否有正确的权限设置',
-        '确认YouTube Data API v3已在Google Cloud Console中启用',
-        '检查API配额是否已用完'
-      ];
-    }
-    if (details?.status === 401) {
-      return [
-        '验证API密钥是否正确输入',
-        '检查API密钥是否已过期',
-        '确认API密钥格式正确（sk-...或AIza...）'
-      ];
-    }
-    if (details?.status === 429) {
-      return [
-        '等待几分钟后重试',
-        '检查API配额和使用限制',
-        '考虑升级API计划以获得更高配额'
-      ];
-    }
-    return [
+// 每种错误类型的标题、图标和解决建议
+const ERROR_PRESENTATION: Record<AppErrorKind, { icon: string; title: string; suggestions: string[] }> = {
+  QuotaExceeded: {
+    icon: '🚫',
+    title: 'Quota Exceeded',
+    suggestions: [
+      '等待配额在太平洋时间0点重置',
+      '在设置中添加更多API Key分担配额',
+      '减少最大结果数以降低单次搜索的配额消耗'
+    ]
+  },
+  KeyInvalid: {
+    icon: '🔑',
+    title: 'Invalid API Key',
+    suggestions: [
+      '验证API密钥是否正确输入（AIza...）',
+      '检查API密钥的应用和HTTP引用来源限制',
+      '在设置中使用"测试"按钮逐个检查Key'
+    ]
+  },
+  ApiNotEnabled: {
+    icon: '🔧',
+    title: 'YouTube Data API Not Enabled',
+    suggestions: [
+      '在Google Cloud Console中启用YouTube Data API v3',
+      '确认API密钥属于已启用该API的项目',
+      '启用后等待几分钟再重试'
+    ]
+  },
+  RateLimited: {
+    icon: '⏱️',
+    title: 'Rate Limited',
+    suggestions: [
+      '等待几分钟后重试',
+      '在设置中降低频道数据并发请求数',
+      '在设置中调整重试策略的重试次数和间隔'
+    ]
+  },
+  Network: {
+    icon: '🌐',
+    title: 'Network Error',
+    suggestions: [
+      '检查网络连接是否正常',
+      '确认可以访问 googleapis.com（部分网络需要代理）',
+      '稍后重试操作'
+    ]
+  },
+  BadRequest: {
+    icon: '❌',
+    title: 'Invalid Request',
+    suggestions: [
+      '尝试不同的关键词',
+      '检查发布时间、时长等筛选条件是否合理',
+      '重置筛选条件后重试'
+    ]
+  },
+  PartialFailure: {
+    icon: '⚠️',
+    title: 'Partial Results',
+    suggestions: [
+      '已显示成功部分的结果',
+      '稍后重新搜索以获取完整结果',
+      '展开调试信息查看失败的查询和原因'
+    ]
+  },
+  Unknown: {
+    icon: '⚠️',
+    title: 'Error',
+    suggestions: [
       '检查网络连接是否正常',
       '稍后重试操作',
       '验证API服务是否可用'
-    ];
-  };
+    ]
+  }
+};
+
+export const ErrorMessage = ({ error, onDismiss, showDebugInfo = false }: ErrorMessageProps) => {
+  const { icon, title, suggestions } = ERROR_PRESENTATION[error.kind];
+  const debugInfo = error.kind === 'PartialFailure'
+    ? { failedQueries: error.failedQueries, totalQueries: error.totalQueries, causes: error.causes }
+    : error.details;
 
   return (
     <div className="card border-red-200 bg-red-50 mb-8">
       <div className="flex items-start space-x-3">
-        <div className="text-red-500 text-2xl">{getErrorIcon()}</div>
+        <div className="text-red-500 text-2xl">{icon}</div>
         <div className="flex-1">
-          <h3 className="text-red-800 font-semibold mb-2">{getErrorTitle()}</h3>
-          <p className="text-red-700 text-sm mb-3">{message}</p>
+          <h3 className="text-red-800 font-semibold mb-2">{title}</h3>
+          <p className="text-red-700 text-sm mb-3">{error.message}</p>
           
-          {details?.status && (
+          {error.status !== undefined && (
             <div className="mb-3">
               <span className="inline-block px-2 py-1 bg-red-200 text-red-800 text-xs rounded-md font-mono">
-                HTTP {details.status}
+                HTTP {error.status}
               </span>
             </div>
           )}
@@ -74,7 +107,7 @@ export const ErrorMessage = ({ message, onDismiss, details, showDebugInfo = fals
           <div className="mb-3">
             <h4 className="text-red-800 font-medium text-sm mb-1">💡 解决建议：</h4>
             <ul className="text-red-700 text-xs space-y-1">
-              {getSuggestions().map((suggestion, index) => (
+              {suggestions.map((suggestion, index) => (
                 <li key={index} className="flex items-start">
                   <span className="mr-2">•</span>
                   <span>{suggestion}</span>
@@ -83,13 +116,13 @@ export const ErrorMessage = ({ message, onDismiss, details, showDebugInfo = fals
             </ul>
           </div>
 
-          {showDebugInfo && details?.error && (
+          {showDebugInfo && debugInfo !== undefined && (
             <details className="mt-3">
               <summary className="text-red-700 text-xs cursor-pointer hover:text-red-800">
                 🔍 显示调试信息
               </summary>
               <div className="mt-2 p-2 bg-red-100 rounded border text-xs font-mono text-red-800 max-h-32 overflow-y-auto">
-                <pre>{JSON.stringify(details.error, null, 2)}</pre>
+                <pre>{JSON.stringify(debugInfo, null, 2)}</pre>
               </div>
             </details>
           )}
@@ -1,10 +1,11 @@
 interface HeaderProps {
   onSettingsClick: () => void;
+  onDebugClick: () => void;
   hasValidKeys: boolean;
   showSettings: boolean;
 }
 
-export const Header = ({ onSettingsClick, hasValidKeys, showSettings }: HeaderProps) => {
+export const Header = ({ onSettingsClick, onDebugClick, hasValidKeys, showSettings }: HeaderProps) => {
   return (
     <header className="bg-white shadow-sm border-b border-gray-200">
       <div className="container mx-auto px-4 py-4">
@@ -29,6 +30,15 @@ export const Header = ({ onSettingsClick, hasValidKeys, showSettings }: HeaderPr
               </div>
             </div>
             
+            <button
+              onClick={onDebugClick}
+              className="flex items-center space-x-2 px-3 py-2 text-sm rounded-lg text-gray-600 hover:text-gray-900 hover:bg-gray-100 transition-colors"
+              title="Debug log"
+            >
+              <span>🐞</span>
+              <span className="hidden sm:inline">Logs</span>
+            </button>
+
             <button
               onClick={onSettingsClick}
               className={`flex items-center space-x-2 px-3 py-2 text-sm rounded-lg transition-colors ${
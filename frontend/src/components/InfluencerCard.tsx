@@ -1,11 +1,14 @@
 import type { InfluencerResult } from '../types';
 import { formatNumber, formatDate, getCountryFlag } from '../utils/format';
+import { describeActivity } from '../utils/uploadActivity';
 
 interface InfluencerCardProps {
   influencer: InfluencerResult;
+  onFindSimilar?: (influencer: InfluencerResult) => void;
+  onOpenChannel?: (channelId: string) => void;
 }
 
-export const InfluencerCard = ({ influencer }: InfluencerCardProps) => {
+export const InfluencerCard = ({ influencer, onFindSimilar, onOpenChannel }: InfluencerCardProps) => {
   const {
     channelTitle,
     channelUrl,
@@ -15,9 +18,26 @@ export const InfluencerCard = ({ influencer }: InfluencerCardProps) => {
     videoCount,
     country,
     recentVideos,
-    relevanceScore
+    relevanceScore,
+    matchStats,
+    similarity,
+    activity
   } = influencer;
 
+  // 按频道聚合视频结果时展示匹配视频的统计，否则展示频道整体数据
+  const stats = matchStats
+    ? [
+        { label: 'Subscribers', value: subscriberCount },
+        { label: 'Matching Views', value: matchStats.totalViews },
+        { label: 'Median Views', value: matchStats.medianViews }
+      ]
+    : [
+        { label: 'Subscribers', value: subscriberCount },
+        { label: 'Total Views', value: viewCount },
+        { label: 'Videos', value: videoCount }
+      ];
+  const visibleVideos = recentVideos.slice(0, matchStats ? 5 : 3);
+
   const getRelevanceColor = (score: number) => {
     if (score >= 80) return 'bg-green-100 text-green-800';
     if (score >= 60) return 'bg-yellow-100 text-yellow-800';
@@ -42,14 +62,24 @@ export const InfluencerCard = ({ influencer }: InfluencerCardProps) => {
           <div className="flex items-start justify-between">
             <div className="flex-1 min-w-0">
               <h3 className="text-lg font-semibold text-gray-900 truncate">
-                <a 
-                  href={channelUrl}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="hover:text-primary-600 transition-colors"
-                >
-                  {channelTitle}
-                </a>
+                {onOpenChannel ? (
+                  <button
+                    onClick={() => onOpenChannel(influencer.channelId)}
+                    className="hover:text-primary-600 transition-colors"
+                    title="View channel details"
+                  >
+                    {channelTitle}
+                  </button>
+                ) : (
+                  <a 
+                    href={channelUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="hover:text-primary-600 transition-colors"
+                  >
+                    {channelTitle}
+                  </a>
+                )}
               </h3>
               <div className="flex items-center space-x-2 mt-1">
                 <span className="text-sm text-gray-600">
@@ -61,6 +91,11 @@ export const InfluencerCard = ({ influencer }: InfluencerCardProps) => {
                   {relevanceScore}% match
                 </span>
               </div>
+              {activity && (
+                <div className="text-xs text-gray-500 mt-1">
+                  📅 {describeActivity(activity)}
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -68,32 +103,61 @@ export const InfluencerCard = ({ influencer }: InfluencerCardProps) => {
 
       {/* Stats */}
       <div className="grid grid-cols-3 gap-4 mb-4">
-        <div className="text-center">
-          <div className="text-lg font-semibold text-gray-900">
-            {formatNumber(subscriberCount)}
-          </div>
-          <div className="text-xs text-gray-600">Subscribers</div>
-        </div>
-        <div className="text-center">
-          <div className="text-lg font-semibold text-gray-900">
-            {formatNumber(viewCount)}
+        {stats.map(stat => (
+          <div key={stat.label} className="text-center">
+            <div className="text-lg font-semibold text-gray-900">
+              {formatNumber(stat.value)}
+            </div>
+            <div className="text-xs text-gray-600">{stat.label}</div>
           </div>
-          <div className="text-xs text-gray-600">Total Views</div>
+        ))}
+      </div>
+
+      {/* Best-performing matching video */}
+      {matchStats && (
+        <div className="mb-4 p-2 bg-yellow-50 border border-yellow-100 rounded text-sm">
+          <span className="font-semibold text-gray-700">🏆 Best: </span>
+          <a 
+            href={`https://www.youtube.com/watch?v=${matchStats.bestVideo.videoId}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-gray-900 hover:text-primary-600 transition-colors"
+          >
+            {matchStats.bestVideo.title}
+          </a>
+          <span className="text-xs text-gray-500"> • {formatNumber(matchStats.bestVideo.viewCount)} views</span>
         </div>
-        <div className="text-center">
-          <div className="text-lg font-semibold text-gray-900">
-            {formatNumber(videoCount)}
-          </div>
-          <div className="text-xs text-gray-600">Videos</div>
+      )}
+
+      {/* 相似创作者搜索：与种子频道共有的话题 */}
+      {similarity && (
+        <div className="mb-4 text-sm">
+          <span className="font-semibold text-gray-700">🧬 Shared topics: </span>
+          {similarity.sharedTerms.length > 0 ? (
+            <span className="inline-flex flex-wrap gap-1 align-middle">
+              {similarity.sharedTerms.slice(0, 6).map(term => (
+                <span key={term} className="px-2 py-0.5 text-xs bg-purple-50 text-purple-700 rounded-full">
+                  {term}
+                </span>
+              ))}
+            </span>
+          ) : (
+            <span className="text-xs text-gray-500">none</span>
+          )}
+          <span className="text-xs text-gray-500">
+            {' '}• {similarity.bandDistance === 0 ? 'same subscriber tier' : `${similarity.bandDistance} subscriber tier${similarity.bandDistance > 1 ? 's' : ''} apart`}
+          </span>
         </div>
-      </div>
+      )}
 
       {/* Recent Videos - 重点展示视频链接 */}
       {recentVideos && recentVideos.length > 0 && (
         <div>
-          <h4 className="text-sm font-semibold text-gray-700 mb-2">🎥 Recent Related Videos</h4>
+          <h4 className="text-sm font-semibold text-gray-700 mb-2">
+            {matchStats ? `🎥 Matching Videos (${matchStats.videoCount})` : '🎥 Recent Related Videos'}
+          </h4>
           <div className="space-y-2">
-            {recentVideos.slice(0, 3).map((video) => (
+            {visibleVideos.map((video) => (
               <div key={video.videoId} className="flex items-start space-x-3 p-2 bg-gray-50 rounded hover:bg-gray-100 transition-colors">
                 <img
                   src={video.thumbnailUrl || '/placeholder-video.png'}
@@ -130,6 +194,11 @@ export const InfluencerCard = ({ influencer }: InfluencerCardProps) => {
                 </div>
               </div>
             ))}
+            {recentVideos.length > visibleVideos.length && (
+              <div className="text-xs text-gray-500">
+                +{recentVideos.length - visibleVideos.length} more
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -145,9 +214,18 @@ export const InfluencerCard = ({ influencer }: InfluencerCardProps) => {
           >
             View Channel →
           </a>
-          <div className="text-xs text-gray-500">
-            ID: {influencer.channelId}
-          </div>
+          {onFindSimilar ? (
+            <button
+              onClick={() => onFindSimilar(influencer)}
+              className="text-sm text-purple-600 hover:text-purple-700 font-medium"
+            >
+              🧬 Find similar
+            </button>
+          ) : (
+            <div className="text-xs text-gray-500">
+              ID: {influencer.channelId}
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -3,9 +3,11 @@ import { formatNumber, formatDate, getCountryFlag } from '../utils/format';
 
 interface InfluencerListItemProps {
   influencer: InfluencerResult;
+  onFindSimilar?: (influencer: InfluencerResult) => void;
+  onOpenChannel?: (channelId: string) => void;
 }
 
-export const InfluencerListItem = ({ influencer }: InfluencerListItemProps) => {
+export const InfluencerListItem = ({ influencer, onFindSimilar, onOpenChannel }: InfluencerListItemProps) => {
   const {
     channelTitle,
     channelUrl,
@@ -15,9 +17,24 @@ export const InfluencerListItem = ({ influencer }: InfluencerListItemProps) => {
     videoCount,
     country,
     recentVideos,
-    relevanceScore
+    relevanceScore,
+    matchStats
   } = influencer;
 
+  // 按频道聚合视频结果时展示匹配视频的统计，否则展示频道整体数据
+  const stats = matchStats
+    ? [
+        { label: 'Subs', value: subscriberCount },
+        { label: 'Matching Views', value: matchStats.totalViews },
+        { label: 'Median Views', value: matchStats.medianViews }
+      ]
+    : [
+        { label: 'Subs', value: subscriberCount },
+        { label: 'Views', value: viewCount },
+        { label: 'Videos', value: videoCount }
+      ];
+  const visibleVideos = recentVideos.slice(0, matchStats ? 3 : 2);
+
   const getRelevanceColor = (score: number) => {
     if (score >= 80) return 'bg-green-100 text-green-800';
     if (score >= 60) return 'bg-yellow-100 text-yellow-800';
@@ -40,14 +57,24 @@ export const InfluencerListItem = ({ influencer }: InfluencerListItemProps) => {
           />
           <div className="min-w-0">
             <h3 className="text-base font-semibold text-gray-900 truncate max-w-[200px]">
-              <a 
-                href={channelUrl}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="hover:text-primary-600 transition-colors"
-              >
-                {channelTitle}
-              </a>
+              {onOpenChannel ? (
+                <button
+                  onClick={() => onOpenChannel(influencer.channelId)}
+                  className="hover:text-primary-600 transition-colors"
+                  title="View channel details"
+                >
+                  {channelTitle}
+                </button>
+              ) : (
+                <a 
+                  href={channelUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="hover:text-primary-600 transition-colors"
+                >
+                  {channelTitle}
+                </a>
+              )}
             </h3>
             <div className="flex items-center space-x-2">
               <span className="text-xs text-gray-600">
@@ -64,27 +91,25 @@ export const InfluencerListItem = ({ influencer }: InfluencerListItemProps) => {
 
         {/* Stats */}
         <div className="flex items-center space-x-6 text-sm text-gray-600 flex-shrink-0">
-          <div className="text-center">
-            <div className="font-semibold text-gray-900">{formatNumber(subscriberCount)}</div>
-            <div className="text-xs">Subs</div>
-          </div>
-          <div className="text-center">
-            <div className="font-semibold text-gray-900">{formatNumber(viewCount)}</div>
-            <div className="text-xs">Views</div>
-          </div>
-          <div className="text-center">
-            <div className="font-semibold text-gray-900">{formatNumber(videoCount)}</div>
-            <div className="text-xs">Videos</div>
-          </div>
+          {stats.map(stat => (
+            <div key={stat.label} className="text-center">
+              <div className="font-semibold text-gray-900">{formatNumber(stat.value)}</div>
+              <div className="text-xs">{stat.label}</div>
+            </div>
+          ))}
         </div>
 
         {/* Recent Videos - 重点展示视频链接 */}
         <div className="flex-1 min-w-0">
           {recentVideos && recentVideos.length > 0 ? (
             <div>
-              <h4 className="text-sm font-semibold text-gray-700 mb-2">🎥 Recent Related Videos</h4>
+              <h4 className="text-sm font-semibold text-gray-700 mb-2">
+                {matchStats
+                  ? `🎥 Matching Videos (${matchStats.videoCount}) • 🏆 Best: ${formatNumber(matchStats.bestVideo.viewCount)} views`
+                  : '🎥 Recent Related Videos'}
+              </h4>
               <div className="space-y-2">
-                {recentVideos.slice(0, 2).map((video) => (
+                {visibleVideos.map((video) => (
                   <div key={video.videoId} className="flex items-start space-x-2">
                     <img
                       src={video.thumbnailUrl || '/placeholder-video.png'}
@@ -121,6 +146,11 @@ export const InfluencerListItem = ({ influencer }: InfluencerListItemProps) => {
                     </div>
                   </div>
                 ))}
+                {recentVideos.length > visibleVideos.length && (
+                  <div className="text-xs text-gray-500">
+                    +{recentVideos.length - visibleVideos.length} more
+                  </div>
+                )}
               </div>
             </div>
           ) : (
@@ -138,9 +168,18 @@ export const InfluencerListItem = ({ influencer }: InfluencerListItemProps) => {
           >
             View Channel →
           </a>
-          <div className="text-xs text-gray-400">
-            ID: {influencer.channelId.substring(0, 8)}...
-          </div>
+          {onFindSimilar ? (
+            <button
+              onClick={() => onFindSimilar(influencer)}
+              className="text-sm text-purple-600 hover:text-purple-700 font-medium"
+            >
+              🧬 Find similar
+            </button>
+          ) : (
+            <div className="text-xs text-gray-400">
+              ID: {influencer.channelId.substring(0, 8)}...
+            </div>
+          )}
         </div>
       </div>
     </div>
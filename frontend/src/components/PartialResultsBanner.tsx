@@ -0,0 +1,104 @@
+import type { SearchOutcome, SearchStage } from '../types';
+import { getFailedOutcomes } from '../utils/searchOutcomes';
+
+interface PartialResultsBannerProps {
+  outcomes: SearchOutcome[];
+  retrying: boolean;
+  onRetry: () => void;
+  onDismiss: () => void;
+}
+
+const STAGE_LABELS: Record<SearchStage, string> = {
+  search: '搜索列表',
+  videoDetails: '视频详情',
+  channelDetails: '频道详情',
+  channelVideos: '频道视频',
+  resolve: '链接解析'
+};
+
+// 部分查询失败时显示：列出失败的查询和阶段，只重试失败的部分
+export const PartialResultsBanner = ({ outcomes, retrying, onRetry, onDismiss }: PartialResultsBannerProps) => {
+  const failed = getFailedOutcomes(outcomes);
+  if (failed.length === 0) return null;
+
+  const failedQueries = new Set(failed.map(outcome => outcome.query)).size;
+  const totalQueries = new Set(outcomes.map(outcome => outcome.query)).size;
+  const quotaSpent = outcomes.reduce((sum, outcome) => sum + outcome.quotaSpent, 0);
+
+  return (
+    <div className="card border-yellow-200 bg-yellow-50 mb-8">
+      <div className="flex items-start space-x-3">
+        <div className="text-yellow-500 text-2xl">⚠️</div>
+        <div className="flex-1">
+          <h3 className="text-yellow-800 font-semibold mb-1">Partial Results</h3>
+          <p className="text-yellow-700 text-sm mb-3">
+            {failedQueries}/{totalQueries} 个搜索查询未能完整执行，下面的结果可能不完整。本次共消耗 {quotaSpent.toLocaleString()} 配额单位。
+          </p>
+
+          <ul className="text-yellow-800 text-xs space-y-1 mb-3">
+            {failed.map(outcome => (
+              <li key={`${outcome.stage}:${outcome.query}`} className="flex items-start">
+                <span className="mr-2">•</span>
+                <span>
+                  <span className="font-medium">"{outcome.query}"</span>
+                  {' '}· {STAGE_LABELS[outcome.stage]}
+                  {outcome.attempts > 1 && ` (${outcome.failures}/${outcome.attempts} 次失败)`}
+                  {outcome.errorKind && (
+                    <span className="ml-2 inline-block px-1.5 py-0.5 bg-yellow-200 rounded font-mono">{outcome.errorKind}</span>
+                  )}
+                  {outcome.errorMessage && <span className="ml-2 text-yellow-700">{outcome.errorMessage}</span>}
+                </span>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={onRetry}
+              disabled={retrying}
+              className="btn-primary text-sm disabled:opacity-50"
+            >
+              {retrying ? '重试中...' : '重试失败的部分'}
+            </button>
+            <span className="text-xs text-yellow-700">只重新执行失败的查询，已获取的结果会保留</span>
+          </div>
+
+          <details className="mt-3">
+            <summary className="text-yellow-700 text-xs cursor-pointer hover:text-yellow-800">
+              查看所有查询的执行情况
+            </summary>
+            <table className="mt-2 w-full text-xs text-yellow-900">
+              <thead>
+                <tr className="text-left">
+                  <th className="pr-2">查询</th>
+                  <th className="pr-2">阶段</th>
+                  <th className="pr-2">结果</th>
+                  <th className="pr-2 text-right">配额</th>
+                </tr>
+              </thead>
+              <tbody>
+                {outcomes.map(outcome => (
+                  <tr key={`${outcome.stage}:${outcome.query}`}>
+                    <td className="pr-2">{outcome.query}</td>
+                    <td className="pr-2">{STAGE_LABELS[outcome.stage]}</td>
+                    <td className="pr-2">{outcome.status === 'success' ? '✅ 成功' : `❌ ${outcome.errorKind || '失败'}`}</td>
+                    <td className="pr-2 text-right">{outcome.quotaSpent}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </details>
+        </div>
+        <button
+          onClick={onDismiss}
+          className="text-yellow-400 hover:text-yellow-600 transition-colors"
+          aria-label="Dismiss partial results notice"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -7,11 +7,15 @@ interface ResultsListProps {
   results: InfluencerResult[];
   onExport: () => void;
   loading: boolean;
+  title?: string;
+  subtitle?: string;
+  onFindSimilar?: (influencer: InfluencerResult) => void;
+  onOpenChannel?: (channelId: string) => void;
 }
 
 type ViewMode = 'card' | 'list';
 
-export const ResultsList = ({ results, onExport, loading }: ResultsListProps) => {
+export const ResultsList = ({ results, onExport, loading, title = 'Search Results', subtitle, onFindSimilar, onOpenChannel }: ResultsListProps) => {
   const [sortBy, setSortBy] = useState<SortOption>('relevance');
   const [viewMode, setViewMode] = useState<ViewMode>('card');
 
@@ -45,10 +49,10 @@ export const ResultsList = ({ results, onExport, loading }: ResultsListProps) =>
         <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center space-y-4 sm:space-y-0">
           <div>
             <h2 className="text-xl font-semibold text-gray-900">
-              Search Results
+              {title}
             </h2>
             <p className="text-sm text-gray-600">
-              Found {results.length} influencer{results.length !== 1 ? 's' : ''} matching your criteria
+              {subtitle || `Found ${results.length} influencer${results.length !== 1 ? 's' : ''} matching your criteria`}
             </p>
           </div>
           
@@ -120,13 +124,13 @@ export const ResultsList = ({ results, onExport, loading }: ResultsListProps) =>
       {viewMode === 'card' ? (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {sortedResults.map((influencer) => (
-            <InfluencerCard key={influencer.channelId} influencer={influencer} />
+            <InfluencerCard key={influencer.channelId} influencer={influencer} onFindSimilar={onFindSimilar} onOpenChannel={onOpenChannel} />
           ))}
         </div>
       ) : (
         <div className="space-y-3">
           {sortedResults.map((influencer) => (
-            <InfluencerListItem key={influencer.channelId} influencer={influencer} />
+            <InfluencerListItem key={influencer.channelId} influencer={influencer} onFindSimilar={onFindSimilar} onOpenChannel={onOpenChannel} />
           ))}
         </div>
       )}
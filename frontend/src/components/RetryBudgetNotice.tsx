@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { ReloadOutlined } from '@ant-design/icons';
+import { RetryService } from '../services/retry.service';
+
+interface RetryBudgetNoticeProps {
+  className?: string;
+}
+
+// 瞬时错误的自动重试：显示最近一次重试的原因和本次操作的重试预算，没有重试时不显示
+export const RetryBudgetNotice = ({ className = '' }: RetryBudgetNoticeProps) => {
+  const [retryBudget, setRetryBudget] = useState(RetryService.getBudget());
+
+  useEffect(() => RetryService.subscribe(setRetryBudget), []);
+
+  if (retryBudget.used === 0) return null;
+
+  return (
+    <div className={`flex items-center justify-between text-xs ${className}`}>
+      <span>
+        <ReloadOutlined className="mr-1" />
+        {retryBudget.lastRetry &&
+          `${retryBudget.lastRetry.endpoint}.list 暂时失败（${retryBudget.lastRetry.reason}），${(retryBudget.lastRetry.delayMs / 1000).toFixed(1)}秒后自动重试`}
+      </span>
+      <span>重试预算: {retryBudget.used} / {retryBudget.limit}</span>
+    </div>
+  );
+};
@@ -1,26 +1,103 @@
 import { useState } from 'react';
-import { Form, Input, Button, Card, Select, InputNumber, Space, Collapse } from 'antd';
-import { SearchOutlined, SettingOutlined } from '@ant-design/icons';
-import type { SearchFilters } from '../types';
+import { Form, Input, Button, Card, Select, InputNumber, Space, Collapse, Alert, DatePicker, Segmented, Upload } from 'antd';
+import { LinkOutlined, SearchOutlined, SettingOutlined, UploadOutlined } from '@ant-design/icons';
+import type { CreatorImport, SearchFilters, VideoDurationFilter } from '../types';
+import { api } from '../utils/api';
+import {
+  DEFAULT_PUBLISH_WINDOW_PRESET,
+  PUBLISH_WINDOW_PRESETS,
+  getPublishWindow,
+  type PublishWindowPreset
+} from '../utils/publishWindow';
+import { DURATION_FILTER_OPTIONS } from '../utils/duration';
+import { parseChannelLink, splitChannelLinks } from '../utils/channelLinks';
+import { parseCsv, toCreatorImport } from '../utils/csv';
 
 interface SearchFormProps {
   onSearch: (topic: string, filters: SearchFilters) => void;
+  onImportCreators: (source: CreatorImport, topic?: string) => void;
   loading: boolean;
 }
 
-export const SearchForm = ({ onSearch, loading }: SearchFormProps) => {
-  const [form] = Form.useForm();
+// keyword: 按主题搜索视频；links: 粘贴链接或上传CSV，逐行生成频道资料
+type SearchMode = 'keyword' | 'links';
+
+interface SearchFormValues {
+  region?: string;
+  minSubscribers?: number;
+  minViews?: number;
+  maxResults?: number;
+  publishWindow?: PublishWindowPreset;
+  durationFilter?: VideoDurationFilter;
+  minLikeRate?: number; // 百分比
+  minCommentRate?: number; // 百分比
+  activeWithinDays?: number;
+  minUploadsPerMonth?: number;
+  // RangePicker 返回 dayjs 对象
+  customRange?: [{ toDate: () => Date } | null, { toDate: () => Date } | null] | null;
+}
+
+export const SearchForm = ({ onSearch, onImportCreators, loading }: SearchFormProps) => {
+  const [form] = Form.useForm<SearchFormValues>();
   const [topic, setTopic] = useState('');
+  const [mode, setMode] = useState<SearchMode>('keyword');
+  const [linksText, setLinksText] = useState('');
+  const [csvImport, setCsvImport] = useState<CreatorImport | null>(null);
+  const [csvError, setCsvError] = useState<string | null>(null);
+  const formValues = Form.useWatch((values: SearchFormValues) => values, form);
+
+  const getCustomRange = (values?: SearchFormValues): [Date, Date] | undefined => {
+    const [start, end] = values?.customRange || [];
+    return start && end ? [start.toDate(), end.toDate()] : undefined;
+  };
+
+  const buildFilters = (values?: SearchFormValues): SearchFilters => ({
+    region: values?.region || 'US',
+    minSubscribers: values?.minSubscribers || 1000,
+    minViews: values?.minViews || 10000,
+    maxResults: values?.maxResults || 50,
+    durationFilter: values?.durationFilter || 'any',
+    // 表单中按百分比输入，筛选条件使用小数
+    minLikeRate: (values?.minLikeRate || 0) / 100,
+    minCommentRate: (values?.minCommentRate || 0) / 100,
+    // 0 或不填表示不限制
+    activeWithinDays: values?.activeWithinDays || undefined,
+    minUploadsPerMonth: values?.minUploadsPerMonth || undefined,
+    ...getPublishWindow(values?.publishWindow || DEFAULT_PUBLISH_WINDOW_PRESET, getCustomRange(values))
+  });
+
+  // 搜索前预估配额消耗
+  const quotaEstimate = api.estimateSearchQuota(buildFilters(formValues));
 
-  const handleSubmit = (values: any) => {
-    if (topic.trim()) {
-      const filters: SearchFilters = {
-        region: values.region || 'US',
-        minSubscribers: values.minSubscribers || 1000,
-        minViews: values.minViews || 10000,
-        maxResults: values.maxResults || 50
-      };
-      onSearch(topic.trim(), filters);
+  // 上传的CSV优先；否则把粘贴的链接当作只有一列的列表
+  const linkSource: CreatorImport = csvImport || {
+    headers: ['Link'],
+    rows: splitChannelLinks(linksText).map(link => [link]),
+    linkColumn: 0
+  };
+  const recognizedLinks = linkSource.rows.filter(row => parseChannelLink(row[linkSource.linkColumn] || '') !== null).length;
+
+  const handleCsvFile = (file: File) => {
+    file.text()
+      .then(text => {
+        const parsed = toCreatorImport(parseCsv(text), file.name);
+        setCsvImport(parsed);
+        setCsvError(parsed ? null : `${file.name} 中没有数据`);
+      })
+      .catch(() => setCsvError(`无法读取 ${file.name}`));
+    // 只在本地读取文件，不上传
+    return false;
+  };
+
+  const handleSubmit = (values: SearchFormValues) => {
+    if (mode === 'links') {
+      if (linkSource.rows.length > 0) {
+        onImportCreators(linkSource, topic.trim() || undefined);
+      }
+      return;
+    }
+    if (topic.trim() && quotaEstimate.status !== 'blocked') {
+      onSearch(topic.trim(), buildFilters(values));
     }
   };
 
@@ -56,7 +133,9 @@ export const SearchForm = ({ onSearch, loading }: SearchFormProps) => {
           region: 'US',
           minSubscribers: 1000,
           minViews: 10000,
-          maxResults: 50
+          maxResults: 50,
+          publishWindow: DEFAULT_PUBLISH_WINDOW_PRESET,
+          durationFilter: 'any'
         }}
       >
         <div className="text-center mb-6">
@@ -68,107 +147,294 @@ export const SearchForm = ({ onSearch, loading }: SearchFormProps) => {
           </p>
         </div>
 
-        <Space.Compact style={{ width: '100%' }} size="large">
-          <Input
-            value={topic}
-            onChange={(e) => setTopic(e.target.value)}
-            placeholder="输入搜索主题，如：TP-Link路由器、美食博主、科技评测..."
-            size="large"
-            style={{ 
-              borderRadius: '8px 0 0 8px',
-              fontSize: '16px'
-            }}
+        <div className="flex justify-center mb-4">
+          <Segmented<SearchMode>
+            value={mode}
+            onChange={setMode}
             disabled={loading}
-            required
+            options={[
+              { value: 'keyword', label: '关键词搜索', icon: <SearchOutlined /> },
+              { value: 'links', label: '频道链接', icon: <LinkOutlined /> }
+            ]}
           />
-          <Button
-            type="primary"
-            size="large"
-            icon={<SearchOutlined />}
-            loading={loading}
-            disabled={!topic.trim()}
-            htmlType="submit"
-            style={{
-              borderRadius: '0 8px 8px 0',
-              background: '#1890ff',
-              borderColor: '#1890ff',
-              minWidth: '120px'
-            }}
-          >
-            {loading ? '搜索中...' : '搜索'}
-          </Button>
-        </Space.Compact>
-
-        <Collapse 
-          ghost
-          size="small"
-          className="mt-4"
-          items={[
-            {
-              key: 'advanced',
-              label: (
-                <span className="text-white/90 flex items-center">
-                  <SettingOutlined className="mr-2" />
-                  高级筛选选项
+        </div>
+
+        {mode === 'links' ? (
+          <div>
+            {csvImport ? (
+              <div className="flex flex-wrap items-center gap-3 bg-white/10 rounded-lg px-4 py-3 text-white text-sm">
+                <span>📄 {csvImport.fileName} · {csvImport.rows.length} 行</span>
+                <span className="flex items-center space-x-2">
+                  <span>链接列:</span>
+                  <Select
+                    size="small"
+                    value={csvImport.linkColumn}
+                    onChange={(linkColumn) => setCsvImport({ ...csvImport, linkColumn })}
+                    options={csvImport.headers.map((header, index) => ({ value: index, label: header }))}
+                    style={{ minWidth: 160 }}
+                    disabled={loading}
+                  />
                 </span>
-              ),
-              children: (
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-                  <Form.Item 
-                    label={<span className="text-white">地区</span>} 
-                    name="region"
-                  >
-                    <Select
-                      options={regions}
-                      placeholder="选择地区"
-                      style={{ width: '100%' }}
-                    />
-                  </Form.Item>
-
-                  <Form.Item 
-                    label={<span className="text-white">最少订阅数</span>} 
-                    name="minSubscribers"
-                  >
-                    <InputNumber
-                      min={0}
-                      max={10000000}
-                      step={1000}
-                      placeholder="1000"
-                      style={{ width: '100%' }}
-                      formatter={(value) => `${value}`.replace(/\B(?=(\d{3})+(?!\d))/g, ',')}
-                    />
-                  </Form.Item>
-
-                  <Form.Item 
-                    label={<span className="text-white">最少播放量</span>} 
-                    name="minViews"
-                  >
-                    <InputNumber
-                      min={0}
-                      max={1000000000}
-                      step={10000}
-                      placeholder="10000"
-                      style={{ width: '100%' }}
-                      formatter={(value) => `${value}`.replace(/\B(?=(\d{3})+(?!\d))/g, ',')}
-                    />
-                  </Form.Item>
-
-                  <Form.Item 
-                    label={<span className="text-white">最大结果数</span>} 
-                    name="maxResults"
-                  >
-                    <InputNumber
-                      min={1}
-                      max={100}
-                      placeholder="50"
-                      style={{ width: '100%' }}
-                    />
-                  </Form.Item>
-                </div>
-              )
-            }
-          ]}
-        />
+                <Button size="small" onClick={() => setCsvImport(null)} disabled={loading}>
+                  移除文件
+                </Button>
+              </div>
+            ) : (
+              <Input.TextArea
+                value={linksText}
+                onChange={(e) => setLinksText(e.target.value)}
+                placeholder={'每行一个链接，支持：\nhttps://www.youtube.com/@handle\nhttps://www.youtube.com/c/name\nhttps://www.youtube.com/channel/UC...\nhttps://www.youtube.com/watch?v=...'}
+                autoSize={{ minRows: 4, maxRows: 10 }}
+                disabled={loading}
+                style={{ fontSize: '14px' }}
+              />
+            )}
+            <div className="mt-2 flex items-center space-x-3">
+              <Upload accept=".csv,.txt" showUploadList={false} beforeUpload={handleCsvFile} disabled={loading}>
+                <Button size="small" icon={<UploadOutlined />}>上传CSV</Button>
+              </Upload>
+              <span className="text-xs text-white/80">CSV中能识别为频道链接最多的一列会被自动选中，导出时保留原有的所有列</span>
+            </div>
+            {csvError && <Alert className="mt-2" type="error" showIcon message={csvError} />}
+            <Space.Compact style={{ width: '100%' }} size="large" className="mt-3">
+              <Input
+                value={topic}
+                onChange={(e) => setTopic(e.target.value)}
+                placeholder="可选：输入主题，用于计算相关度和挑选相关视频"
+                size="large"
+                style={{ borderRadius: '8px 0 0 8px' }}
+                disabled={loading}
+              />
+              <Button
+                type="primary"
+                size="large"
+                icon={<LinkOutlined />}
+                loading={loading}
+                disabled={recognizedLinks === 0}
+                htmlType="submit"
+                style={{
+                  borderRadius: '0 8px 8px 0',
+                  background: '#1890ff',
+                  borderColor: '#1890ff',
+                  minWidth: '120px'
+                }}
+              >
+                {loading ? '解析中...' : '获取频道'}
+              </Button>
+            </Space.Compact>
+            <div className="mt-2 text-xs text-white/80">
+              🔗 已识别 {recognizedLinks}/{linkSource.rows.length} 个链接 · 每个链接约消耗 2-5 配额单位（不使用 search.list）
+            </div>
+          </div>
+        ) : (
+          <>
+            <Space.Compact style={{ width: '100%' }} size="large">
+              <Input
+                value={topic}
+                onChange={(e) => setTopic(e.target.value)}
+                placeholder="输入搜索主题，如：TP-Link路由器、美食博主、科技评测..."
+                size="large"
+                style={{ 
+                  borderRadius: '8px 0 0 8px',
+                  fontSize: '16px'
+                }}
+                disabled={loading}
+                required
+              />
+              <Button
+                type="primary"
+                size="large"
+                icon={<SearchOutlined />}
+                loading={loading}
+                disabled={!topic.trim() || quotaEstimate.status === 'blocked'}
+                htmlType="submit"
+                style={{
+                  borderRadius: '0 8px 8px 0',
+                  background: '#1890ff',
+                  borderColor: '#1890ff',
+                  minWidth: '120px'
+                }}
+              >
+                {loading ? '搜索中...' : '搜索'}
+              </Button>
+            </Space.Compact>
+
+            <div className="mt-2 text-xs text-white/80">
+              📊 预计消耗约 {quotaEstimate.units.toLocaleString()} 配额单位 · 可用剩余 {quotaEstimate.remaining.toLocaleString()} ({quotaEstimate.activeKeys} 个可用Key)
+            </div>
+            {quotaEstimate.status === 'warning' && (
+              <Alert
+                className="mt-2"
+                type="warning"
+                showIcon
+                message="本次搜索后剩余配额将不足以再进行一次同等规模的搜索"
+              />
+            )}
+            {quotaEstimate.status === 'blocked' && (
+              <Alert
+                className="mt-2"
+                type="error"
+                showIcon
+                message="配额不足：本次搜索预计消耗超过所有可用Key的剩余配额，请减少最大结果数或添加API Key"
+              />
+            )}
+
+            <Collapse 
+              ghost
+              size="small"
+              className="mt-4"
+              items={[
+                {
+                  key: 'advanced',
+                  label: (
+                    <span className="text-white/90 flex items-center">
+                      <SettingOutlined className="mr-2" />
+                      高级筛选选项
+                    </span>
+                  ),
+                  children: (
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                      <Form.Item 
+                        label={<span className="text-white">地区</span>} 
+                        name="region"
+                      >
+                        <Select
+                          options={regions}
+                          placeholder="选择地区"
+                          style={{ width: '100%' }}
+                        />
+                      </Form.Item>
+
+                      <Form.Item 
+                        label={<span className="text-white">最少订阅数</span>} 
+                        name="minSubscribers"
+                      >
+                        <InputNumber
+                          min={0}
+                          max={10000000}
+                          step={1000}
+                          placeholder="1000"
+                          style={{ width: '100%' }}
+                          formatter={(value) => `${value}`.replace(/\B(?=(\d{3})+(?!\d))/g, ',')}
+                        />
+                      </Form.Item>
+
+                      <Form.Item 
+                        label={<span className="text-white">最少播放量</span>} 
+                        name="minViews"
+                      >
+                        <InputNumber
+                          min={0}
+                          max={1000000000}
+                          step={10000}
+                          placeholder="10000"
+                          style={{ width: '100%' }}
+                          formatter={(value) => `${value}`.replace(/\B(?=(\d{3})+(?!\d))/g, ',')}
+                        />
+                      </Form.Item>
+
+                      <Form.Item 
+                        label={<span className="text-white">最大结果数</span>} 
+                        name="maxResults"
+                      >
+                        <InputNumber
+                          min={1}
+                          max={500}
+                          step={50}
+                          placeholder="50"
+                          style={{ width: '100%' }}
+                        />
+                      </Form.Item>
+
+                      <Form.Item 
+                        label={<span className="text-white">最低点赞率 (%)</span>} 
+                        name="minLikeRate"
+                      >
+                        <InputNumber
+                          min={0}
+                          max={100}
+                          step={0.5}
+                          placeholder="0"
+                          style={{ width: '100%' }}
+                        />
+                      </Form.Item>
+
+                      <Form.Item 
+                        label={<span className="text-white">最低评论率 (%)</span>} 
+                        name="minCommentRate"
+                      >
+                        <InputNumber
+                          min={0}
+                          max={100}
+                          step={0.05}
+                          placeholder="0"
+                          style={{ width: '100%' }}
+                        />
+                      </Form.Item>
+
+                      <Form.Item 
+                        label={<span className="text-white">最近N天内有更新</span>} 
+                        name="activeWithinDays"
+                      >
+                        <InputNumber
+                          min={0}
+                          max={365}
+                          step={7}
+                          placeholder="不限"
+                          style={{ width: '100%' }}
+                        />
+                      </Form.Item>
+
+                      <Form.Item 
+                        label={<span className="text-white">每月至少上传数</span>} 
+                        name="minUploadsPerMonth"
+                      >
+                        {/* 上传列表样本为50个视频，样本覆盖不到90天时按覆盖的天数估算，日更及以上的频道也能达到上限 */}
+                        <InputNumber
+                          min={0}
+                          max={60}
+                          step={1}
+                          placeholder="不限"
+                          style={{ width: '100%' }}
+                        />
+                      </Form.Item>
+
+                      <Form.Item 
+                        label={<span className="text-white">视频时长</span>} 
+                        name="durationFilter"
+                      >
+                        <Select
+                          options={DURATION_FILTER_OPTIONS}
+                          style={{ width: '100%' }}
+                        />
+                      </Form.Item>
+
+                      <Form.Item 
+                        label={<span className="text-white">发布时间</span>} 
+                        name="publishWindow"
+                      >
+                        <Select
+                          options={PUBLISH_WINDOW_PRESETS.map(({ value, label }) => ({ value, label }))}
+                          style={{ width: '100%' }}
+                        />
+                      </Form.Item>
+
+                      {formValues?.publishWindow === 'custom' && (
+                        <Form.Item 
+                          label={<span className="text-white">自定义发布时间</span>} 
+                          name="customRange"
+                          className="md:col-span-2"
+                        >
+                          <DatePicker.RangePicker style={{ width: '100%' }} />
+                        </Form.Item>
+                      )}
+                    </div>
+                  )
+                }
+              ]}
+            />
+          </>
+        )}
       </Form>
 
       <style>{`
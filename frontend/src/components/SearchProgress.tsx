@@ -1,19 +1,23 @@
 import React from 'react';
-import { Steps, Progress, Card } from 'antd';
+import { Steps, Progress, Card, Button } from 'antd';
 import { 
   SearchOutlined, 
   ThunderboltOutlined, 
-  CheckCircleOutlined 
+  CheckCircleOutlined,
+  StopOutlined
 } from '@ant-design/icons';
+import { RetryBudgetNotice } from './RetryBudgetNotice';
 
 interface SearchProgressProps {
   currentStep: 'idle' | 'searching' | 'processing' | 'complete';
   visible: boolean;
+  title?: string; // 加载更多/重试失败的查询时显示对应的标题
+  onCancel?: () => void;
 }
 
 const { Step } = Steps;
 
-export const SearchProgress: React.FC<SearchProgressProps> = ({ currentStep, visible }) => {
+export const SearchProgress: React.FC<SearchProgressProps> = ({ currentStep, visible, title = '搜索进度', onCancel }) => {
   if (!visible) return null;
 
   const steps = [
@@ -59,11 +63,18 @@ export const SearchProgress: React.FC<SearchProgressProps> = ({ currentStep, vis
     <Card className="mb-6 search-progress-card" style={{ background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)' }}>
       <div className="text-white">
         <div className="flex items-center justify-between mb-4">
-          <h3 className="text-lg font-semibold text-white m-0">搜索进度</h3>
-          <div className="text-sm opacity-90">
-            {currentStep === 'searching' && '正在精确搜索频道...'}
-            {currentStep === 'processing' && '正在处理结果...'}
-            {currentStep === 'complete' && '搜索完成！'}
+          <h3 className="text-lg font-semibold text-white m-0">{title}</h3>
+          <div className="flex items-center space-x-3">
+            <div className="text-sm opacity-90">
+              {currentStep === 'searching' && '正在精确搜索频道...'}
+              {currentStep === 'processing' && '正在处理结果...'}
+              {currentStep === 'complete' && '搜索完成！'}
+            </div>
+            {onCancel && currentStep !== 'complete' && (
+              <Button size="small" icon={<StopOutlined />} onClick={onCancel}>
+                取消
+              </Button>
+            )}
           </div>
         </div>
         
@@ -77,6 +88,9 @@ export const SearchProgress: React.FC<SearchProgressProps> = ({ currentStep, vis
           className="mb-4"
         />
 
+        {/* 瞬时错误的自动重试 */}
+        <RetryBudgetNotice className="opacity-90 mb-4" />
+
         <Steps 
           current={currentStepIndex} 
           size="small"
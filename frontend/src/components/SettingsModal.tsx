@@ -1,5 +1,26 @@
 import { useState, useEffect } from 'react';
-import { SettingsService, type AppSettings, type YouTubeApiKey } from '../services/settings.service';
+import {
+  SettingsService,
+  DEFAULT_ENRICHMENT_CONCURRENCY,
+  MAX_ENRICHMENT_CONCURRENCY,
+  type AppSettings,
+  type KeySchedulingPolicy,
+  type RetryPolicy,
+  type YouTubeApiKey,
+  type YouTubeTransportMode
+} from '../services/settings.service';
+import { YouTubeService } from '../services/youtube.service';
+import { QuotaService } from '../services/quota.service';
+import { DEFAULT_SCHEDULING_POLICY } from '../services/key-scheduler.service';
+import { DEFAULT_MOCK_SERVER_URL, YouTubeTransportService } from '../services/youtube-transport.service';
+import { CacheService, type CacheStats } from '../services/cache.service';
+import { EntityStoreService } from '../services/entity-store.service';
+import { RetryService } from '../services/retry.service';
+import type { YouTubeEndpoint } from '../services/youtube-api.service';
+import { downloadBlob, formatBytes, formatPercent } from '../utils/format';
+import { createLogger } from '../services/logger.service';
+
+const log = createLogger('settings');
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -17,6 +38,8 @@ export const SettingsModal = ({ isOpen, onClose, onSave }: SettingsModalProps) =
   const [showNewKeyForm, setShowNewKeyForm] = useState(false);
   const [testingKeyId, setTestingKeyId] = useState<string | null>(null);
   const [showKeys, setShowKeys] = useState<{ [keyId: string]: boolean }>({});
+  const [recording, setRecording] = useState(YouTubeTransportService.isRecording());
+  const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
 
   useEffect(() => {
     if (isOpen) {
@@ -25,6 +48,7 @@ export const SettingsModal = ({ isOpen, onClose, onSave }: SettingsModalProps) =
       setShowNewKeyForm(false);
       setNewKeyName('');
       setNewKeyValue('');
+      CacheService.getStats().then(setCacheStats);
     }
   }, [isOpen]);
 
@@ -39,41 +63,90 @@ export const SettingsModal = ({ isOpen, onClose, onSave }: SettingsModalProps) =
     setNewKeyName('');
     setNewKeyValue('');
     setShowNewKeyForm(false);
-    console.log(`✅ Added new YouTube API key: ${newKeyName}`);
+    log.info(`✅ Added new YouTube API key: ${newKeyName}`);
   };
 
   const handleRemoveKey = (keyId: string) => {
     if (confirm('确定要删除此API Key吗？')) {
       SettingsService.removeYouTubeApiKey(keyId);
       setSettings(SettingsService.getSettings());
-      console.log(`🗑️ Removed YouTube API key: ${keyId}`);
+      log.info(`🗑️ Removed YouTube API key: ${keyId}`);
     }
   };
 
   const handleTestKey = async (apiKey: YouTubeApiKey) => {
     setTestingKeyId(apiKey.id);
     try {
-      console.log(`🧪 Testing API key: ${apiKey.name}`);
+      log.info(`🧪 Testing API key: ${apiKey.name}`);
       
-      // 简单的测试：尝试搜索一个视频
-      const testResult = await fetch(`https://www.googleapis.com/youtube/v3/search?part=snippet&q=test&type=video&maxResults=1&key=${apiKey.key}`);
+      // 简单的测试：尝试搜索一个视频（走统一的YouTube API请求管道）
+      const testResult = await new YouTubeService().testApiConnection(apiKey);
       
-      if (testResult.ok) {
-        console.log(`✅ API key test successful: ${apiKey.name}`);
+      if (testResult.success) {
+        log.info(`✅ API key test successful: ${apiKey.name}`);
+        // 测试通过的key恢复为可用状态
+        SettingsService.reactivateKey(apiKey.id);
+        setSettings(SettingsService.getSettings());
         alert(`✅ API Key "${apiKey.name}" 测试成功！`);
       } else {
-        const errorData = await testResult.json();
-        console.error(`❌ API key test failed: ${apiKey.name}`, errorData);
-        alert(`❌ API Key "${apiKey.name}" 测试失败: ${errorData.error?.message || '未知错误'}`);
+        log.error(`❌ API key test failed: ${apiKey.name}`, testResult.details);
+        alert(`❌ API Key "${apiKey.name}" 测试失败: ${testResult.message}`);
       }
     } catch (error) {
-      console.error(`❌ API key test error: ${apiKey.name}`, error);
+      log.error(`❌ API key test error: ${apiKey.name}`, error);
       alert(`❌ API Key "${apiKey.name}" 测试出错: ${error}`);
     } finally {
       setTestingKeyId(null);
     }
   };
 
+  const handlePolicyChange = (policy: KeySchedulingPolicy) => {
+    SettingsService.setKeySchedulingPolicy(policy);
+    setSettings(SettingsService.getSettings());
+  };
+
+  const handleWeightChange = (keyId: string, weight: number) => {
+    if (!Number.isFinite(weight) || weight < 1) return;
+    SettingsService.setKeyWeight(keyId, weight);
+    setSettings(SettingsService.getSettings());
+  };
+
+  const handleConcurrencyChange = (concurrency: number) => {
+    if (!Number.isFinite(concurrency) || concurrency < 1) return;
+    SettingsService.setEnrichmentConcurrency(concurrency);
+    setSettings(SettingsService.getSettings());
+  };
+
+  const handleRetryPolicyChange = (endpoint: YouTubeEndpoint, changes: Partial<RetryPolicy>) => {
+    if (Object.values(changes).some(value => !Number.isFinite(value) || value < 0)) return;
+    SettingsService.setRetryPolicy(endpoint, { ...RetryService.getPolicy(endpoint), ...changes });
+    setSettings(SettingsService.getSettings());
+  };
+
+  const handleTransportChange = (mode: YouTubeTransportMode, mockServerUrl?: string) => {
+    SettingsService.setTransportMode(mode, mockServerUrl);
+    setSettings(SettingsService.getSettings());
+  };
+
+  const handleToggleRecording = () => {
+    if (recording) {
+      // 停止时导出录制结果，每个接口一个fixture文件
+      Object.entries(YouTubeTransportService.exportRecording()).forEach(([endpoint, file]) => {
+        downloadBlob(new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }), `${endpoint}.json`);
+      });
+      YouTubeTransportService.stopRecording();
+    } else {
+      YouTubeTransportService.startRecording();
+    }
+    setRecording(YouTubeTransportService.isRecording());
+  };
+
+  const handleClearCache = async () => {
+    await CacheService.clear();
+    EntityStoreService.clear();
+    setCacheStats(await CacheService.getStats());
+  };
+
   const handleClose = () => {
     onSave(); // 通知父组件设置可能已更改
     onClose();
@@ -101,6 +174,20 @@ export const SettingsModal = ({ isOpen, onClose, onSave }: SettingsModalProps) =
     }
   };
 
+  const schedulingPolicies: Array<{ value: KeySchedulingPolicy; label: string }> = [
+    { value: 'least-used', label: '剩余配额优先（均衡使用）' },
+    { value: 'round-robin', label: '加权轮询' },
+    { value: 'priority', label: '按权重优先级' },
+  ];
+
+  const transportModes: Array<{ value: YouTubeTransportMode; label: string }> = [
+    { value: 'live', label: 'YouTube Data API（真实请求）' },
+    { value: 'mock', label: '本地Mock服务' },
+    { value: 'fixture', label: '回放Fixture文件（离线）' },
+  ];
+
+  const retryEndpoints: YouTubeEndpoint[] = ['search', 'videos', 'channels', 'playlistItems'];
+
   if (!isOpen) return null;
 
   return (
@@ -131,6 +218,42 @@ export const SettingsModal = ({ isOpen, onClose, onSave }: SettingsModalProps) =
               </button>
             </div>
 
+            {/* Key调度策略 */}
+            <div className="mb-4 flex items-center space-x-2">
+              <label htmlFor="keySchedulingPolicy" className="text-sm font-medium text-gray-700">
+                调度策略:
+              </label>
+              <select
+                id="keySchedulingPolicy"
+                value={settings.keySchedulingPolicy || DEFAULT_SCHEDULING_POLICY}
+                onChange={(e) => handlePolicyChange(e.target.value as KeySchedulingPolicy)}
+                className="text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-primary-500"
+              >
+                {schedulingPolicies.map(option => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* 频道数据补充并发数 */}
+            <div className="mb-4 flex items-center space-x-2">
+              <label htmlFor="enrichmentConcurrency" className="text-sm font-medium text-gray-700">
+                频道数据并发请求数:
+              </label>
+              <input
+                id="enrichmentConcurrency"
+                type="number"
+                min={1}
+                max={MAX_ENRICHMENT_CONCURRENCY}
+                value={settings.enrichmentConcurrency || DEFAULT_ENRICHMENT_CONCURRENCY}
+                onChange={(e) => handleConcurrencyChange(Number(e.target.value))}
+                className="w-16 text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+              <span className="text-xs text-gray-500">数值越大越快，但更容易触发速率限制</span>
+            </div>
+
             {/* 添加新Key表单 */}
             {showNewKeyForm && (
               <div className="mb-4 p-4 border border-gray-200 rounded-lg bg-gray-50">
@@ -233,13 +356,25 @@ export const SettingsModal = ({ isOpen, onClose, onSave }: SettingsModalProps) =
                           </button>
                         </div>
                         <div className="mt-2 text-xs text-gray-500">
-                          配额使用: {apiKey.quotaUsed.toLocaleString()} / {apiKey.quotaLimit.toLocaleString()}
+                          今日配额: {QuotaService.getUsedToday(apiKey).toLocaleString()} / {apiKey.quotaLimit.toLocaleString()}
                           {apiKey.lastUsed && (
                             <span className="ml-2">
                               最后使用: {new Date(apiKey.lastUsed).toLocaleString()}
                             </span>
                           )}
                         </div>
+                        <div className="mt-2 flex items-center space-x-2 text-xs text-gray-500">
+                          <label htmlFor={`weight-${apiKey.id}`}>权重:</label>
+                          <input
+                            id={`weight-${apiKey.id}`}
+                            type="number"
+                            min={1}
+                            max={10}
+                            value={apiKey.weight || 1}
+                            onChange={(e) => handleWeightChange(apiKey.id, Number(e.target.value))}
+                            className="w-14 border border-gray-300 rounded px-1 py-0.5"
+                          />
+                        </div>
                         {apiKey.lastError && (
                           <div className="mt-2 text-xs text-red-600">
                             错误: {apiKey.lastError}
@@ -268,15 +403,152 @@ export const SettingsModal = ({ isOpen, onClose, onSave }: SettingsModalProps) =
             </div>
           </div>
 
+          {/* 数据来源（开发/测试） */}
+          <div>
+            <h3 className="text-lg font-medium text-gray-900 mb-3">🔌 数据来源</h3>
+            <div className="space-y-3">
+              <div className="flex items-center space-x-2">
+                <label htmlFor="transportMode" className="text-sm font-medium text-gray-700">
+                  请求方式:
+                </label>
+                <select
+                  id="transportMode"
+                  value={settings.transportMode || 'live'}
+                  onChange={(e) => handleTransportChange(e.target.value as YouTubeTransportMode)}
+                  className="text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                >
+                  {transportModes.map(option => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {settings.transportMode === 'mock' && (
+                <div className="flex items-center space-x-2">
+                  <label htmlFor="mockServerUrl" className="text-sm font-medium text-gray-700">
+                    Mock地址:
+                  </label>
+                  <input
+                    id="mockServerUrl"
+                    type="text"
+                    defaultValue={settings.mockServerUrl || DEFAULT_MOCK_SERVER_URL}
+                    onBlur={(e) => handleTransportChange('mock', e.target.value)}
+                    className="input-field text-sm flex-1"
+                  />
+                </div>
+              )}
+
+              <div className="flex items-center justify-between text-sm text-gray-600">
+                <span>
+                  {recording ? '⏺️ 正在录制API响应…' : '录制真实API响应，导出后放到 fixtures/youtube/ 即可离线回放'}
+                </span>
+                <button
+                  onClick={handleToggleRecording}
+                  className="btn-secondary text-sm"
+                >
+                  {recording ? '停止并导出' : '开始录制'}
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {/* 瞬时错误重试 */}
+          <div>
+            <h3 className="text-lg font-medium text-gray-900 mb-1">🔁 重试策略</h3>
+            <p className="text-xs text-gray-500 mb-3">
+              遇到429、5xx或网络错误时按指数退避自动重试（与配额用尽时的Key切换相互独立）
+            </p>
+            <div className="space-y-2">
+              {retryEndpoints.map(endpoint => {
+                const policy = RetryService.getPolicy(endpoint);
+                return (
+                  <div key={endpoint} className="flex items-center space-x-2 text-sm text-gray-700">
+                    <span className="w-28 font-mono text-xs">{endpoint}.list</span>
+                    <label htmlFor={`retries-${endpoint}`}>最多重试</label>
+                    <input
+                      id={`retries-${endpoint}`}
+                      type="number"
+                      min={0}
+                      max={10}
+                      value={policy.maxRetries}
+                      onChange={(e) => handleRetryPolicyChange(endpoint, { maxRetries: Number(e.target.value) })}
+                      className="w-14 border border-gray-300 rounded px-1 py-0.5"
+                    />
+                    <label htmlFor={`delay-${endpoint}`}>次，初始间隔</label>
+                    <input
+                      id={`delay-${endpoint}`}
+                      type="number"
+                      min={0}
+                      step={100}
+                      value={policy.baseDelayMs}
+                      onChange={(e) => handleRetryPolicyChange(endpoint, { baseDelayMs: Number(e.target.value) })}
+                      className="w-20 border border-gray-300 rounded px-1 py-0.5"
+                    />
+                    <span>ms</span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* 结果缓存 */}
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-lg font-medium text-gray-900">💾 结果缓存</h3>
+              <button
+                onClick={handleClearCache}
+                className="btn-secondary text-sm"
+              >
+                清空缓存
+              </button>
+            </div>
+            {cacheStats && (
+              <div className="grid grid-cols-3 gap-3 text-sm text-gray-600">
+                <div>
+                  <div className="text-xs text-gray-500">缓存条目</div>
+                  <div className="font-medium text-gray-900">
+                    {cacheStats.entries}
+                    <span className="ml-1 text-xs text-gray-500">
+                      (搜索 {cacheStats.namespaces.search?.entries || 0} / 关键词 {cacheStats.namespaces.keywords?.entries || 0}
+                      {' '}/ 视频 {cacheStats.namespaces.videos?.entries || 0} / 频道 {cacheStats.namespaces.channels?.entries || 0})
+                    </span>
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs text-gray-500">占用空间</div>
+                  <div className="font-medium text-gray-900">
+                    {formatBytes(cacheStats.bytesUsed)} / {formatBytes(cacheStats.budgetBytes)}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs text-gray-500">本次会话命中率</div>
+                  <div className="font-medium text-gray-900">
+                    {formatPercent(cacheStats.hitRate, 0)}
+                    <span className="ml-1 text-xs text-gray-500">
+                      ({cacheStats.hits}/{cacheStats.hits + cacheStats.misses})
+                    </span>
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+
           {/* 使用说明 */}
           <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
             <h4 className="font-medium text-blue-900 mb-2">💡 使用说明</h4>
             <ul className="text-sm text-blue-800 space-y-1">
               <li>• 您可以添加多个YouTube API Key作为备用</li>
-              <li>• 当前使用的Key配额用尽时，系统会自动切换到下一个可用Key</li>
+              <li>• 每个请求按调度策略在可用Key之间分配，配额不足或近期频繁出错的Key会被跳过</li>
               <li>• 建议添加2-3个API Key以避免配额限制</li>
-              <li>• 每个API Key每日免费配额为10,000单位</li>
+              <li>• 每个API Key每日免费配额为10,000单位，搜索请求消耗100单位，视频/频道详情和频道上传列表请求消耗1单位</li>
+              <li>• 配额在太平洋时间0点重置（下次重置: {QuotaService.getNextReset().toLocaleString()}）</li>
               <li>• 红色状态表示Key出现错误，橙色表示配额已用尽</li>
+              <li>• 已用尽的Key会在配额重置后自动恢复；出错的Key每6小时自动重新检测一次</li>
+              <li>• 搜索结果缓存30分钟、关键词扩展缓存24小时，超出容量时优先淘汰最久未使用的结果</li>
+              <li>• 视频/频道详情在多次搜索间复用：统计数据每小时刷新、标题等基本信息每天刷新，只为缺失或过期的条目消耗配额</li>
+              <li>• Mock服务和Fixture回放不访问YouTube，但仍按相同规则记录配额，便于演练Key切换（运行 npm run mock:youtube 启动Mock服务）</li>
             </ul>
           </div>
         </div>
@@ -0,0 +1,44 @@
+import type { UnresolvedLink } from '../types';
+
+interface UnresolvedLinksNoticeProps {
+  items: UnresolvedLink[];
+  onDismiss: () => void;
+}
+
+// 列出无法解析为频道的输入及原因，其余链接的结果照常显示
+export const UnresolvedLinksNotice = ({ items, onDismiss }: UnresolvedLinksNoticeProps) => {
+  if (items.length === 0) return null;
+
+  return (
+    <div className="card border-yellow-200 bg-yellow-50 mb-8">
+      <div className="flex items-start space-x-3">
+        <div className="text-yellow-500 text-2xl">🔗</div>
+        <div className="flex-1">
+          <h3 className="text-yellow-800 font-semibold mb-1">
+            {items.length} 个链接未能解析
+          </h3>
+          <ul className="text-yellow-800 text-xs space-y-1">
+            {items.map(item => (
+              <li key={item.input} className="flex items-start">
+                <span className="mr-2">•</span>
+                <span>
+                  <span className="font-mono break-all">{item.input}</span>
+                  <span className="ml-2 text-yellow-700">{item.reason}</span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+        <button
+          onClick={onDismiss}
+          className="text-yellow-400 hover:text-yellow-600 transition-colors"
+          aria-label="Dismiss unresolved links notice"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+    </div>
+  );
+};
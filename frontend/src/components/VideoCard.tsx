@@ -1,11 +1,14 @@
 import type { VideoResult } from '../types';
-import { formatNumber, formatDate } from '../utils/format';
+import { formatNumber, formatDate, formatPercent } from '../utils/format';
+import { formatDuration } from '../utils/duration';
+import { describeActivity } from '../utils/uploadActivity';
 
 interface VideoCardProps {
   video: VideoResult;
+  onOpenChannel?: (channelId: string) => void;
 }
 
-export const VideoCard = ({ video }: VideoCardProps) => {
+export const VideoCard = ({ video, onOpenChannel }: VideoCardProps) => {
   const {
     title,
     description,
@@ -13,11 +16,14 @@ export const VideoCard = ({ video }: VideoCardProps) => {
     viewCount,
     likeCount,
     commentCount,
-    duration,
+    durationSeconds,
     thumbnailUrl,
     videoUrl,
     channel,
-    relevanceScore
+    relevanceScore,
+    likeRate,
+    commentRate,
+    viewsPerDay
   } = video;
 
   const getRelevanceColor = (score: number) => {
@@ -26,21 +32,6 @@ export const VideoCard = ({ video }: VideoCardProps) => {
     return 'bg-gray-100 text-gray-800';
   };
 
-  const formatDuration = (duration: string) => {
-    // Convert ISO 8601 duration to readable format
-    const match = duration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
-    if (!match) return duration;
-    
-    const hours = parseInt(match[1] || '0');
-    const minutes = parseInt(match[2] || '0');
-    const seconds = parseInt(match[3] || '0');
-    
-    if (hours > 0) {
-      return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
-    }
-    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
-  };
-
   return (
     <div className="card hover:shadow-md transition-shadow duration-200">
       {/* Video Thumbnail and Info */}
@@ -61,9 +52,9 @@ export const VideoCard = ({ video }: VideoCardProps) => {
                 target.src = '/placeholder-video.png';
               }}
             />
-            {duration && (
+            {durationSeconds > 0 && (
               <span className="absolute bottom-2 right-2 bg-black bg-opacity-75 text-white text-xs px-2 py-1 rounded">
-                {formatDuration(duration)}
+                {formatDuration(durationSeconds)}
               </span>
             )}
           </a>
@@ -120,6 +111,28 @@ export const VideoCard = ({ video }: VideoCardProps) => {
           </div>
         </div>
 
+        {/* Engagement Metrics */}
+        <div className="grid grid-cols-3 gap-4 pb-3">
+          <div className="text-center">
+            <div className="text-sm font-semibold text-gray-900">
+              {formatPercent(likeRate)}
+            </div>
+            <div className="text-xs text-gray-600">Like Rate</div>
+          </div>
+          <div className="text-center">
+            <div className="text-sm font-semibold text-gray-900">
+              {formatPercent(commentRate)}
+            </div>
+            <div className="text-xs text-gray-600">Comment Rate</div>
+          </div>
+          <div className="text-center">
+            <div className="text-sm font-semibold text-gray-900">
+              {formatNumber(viewsPerDay)}
+            </div>
+            <div className="text-xs text-gray-600">Views/Day</div>
+          </div>
+        </div>
+
         {/* Channel Info */}
         <div className="flex items-center space-x-3 pt-3 border-t border-gray-100">
           <img
@@ -135,20 +148,35 @@ export const VideoCard = ({ video }: VideoCardProps) => {
             <div className="flex items-center justify-between">
               <div className="flex-1 min-w-0">
                 <p className="text-sm font-medium text-gray-900 truncate">
-                  <a 
-                    href={channel.channelUrl}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="hover:text-primary-600 transition-colors"
-                  >
-                    {channel.channelTitle}
-                  </a>
+                  {onOpenChannel ? (
+                    <button
+                      onClick={() => onOpenChannel(channel.channelId)}
+                      className="hover:text-primary-600 transition-colors"
+                      title="View channel details"
+                    >
+                      {channel.channelTitle}
+                    </button>
+                  ) : (
+                    <a 
+                      href={channel.channelUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="hover:text-primary-600 transition-colors"
+                    >
+                      {channel.channelTitle}
+                    </a>
+                  )}
                 </p>
                 <div className="flex items-center space-x-2 text-xs text-gray-500">
                   <span>{formatNumber(channel.subscriberCount)} subscribers</span>
                   <span>•</span>
                   <span>{formatDate(publishedAt)}</span>
                 </div>
+                {channel.activity && (
+                  <div className="text-xs text-gray-500">
+                    📅 {describeActivity(channel.activity)}
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -1,22 +1,25 @@
 import type { VideoResult } from '../types';
-import { formatNumber, formatDate } from '../utils/format';
+import { formatNumber, formatDate, formatPercent } from '../utils/format';
+import { formatDuration } from '../utils/duration';
 
 interface VideoListItemProps {
   video: VideoResult;
+  onOpenChannel?: (channelId: string) => void;
 }
 
-export const VideoListItem = ({ video }: VideoListItemProps) => {
+export const VideoListItem = ({ video, onOpenChannel }: VideoListItemProps) => {
   const {
     title,
     description,
     publishedAt,
     viewCount,
     likeCount,
-    duration,
+    durationSeconds,
     thumbnailUrl,
     videoUrl,
     channel,
-    relevanceScore
+    relevanceScore,
+    likeRate
   } = video;
 
   const getRelevanceColor = (score: number) => {
@@ -25,21 +28,6 @@ export const VideoListItem = ({ video }: VideoListItemProps) => {
     return 'bg-gray-100 text-gray-800';
   };
 
-  const formatDuration = (duration: string) => {
-    // Convert ISO 8601 duration to readable format
-    const match = duration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
-    if (!match) return duration;
-    
-    const hours = parseInt(match[1] || '0');
-    const minutes = parseInt(match[2] || '0');
-    const seconds = parseInt(match[3] || '0');
-    
-    if (hours > 0) {
-      return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
-    }
-    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
-  };
-
   return (
     <div className="card hover:shadow-md transition-shadow duration-200">
       <div className="flex items-start space-x-4">
@@ -59,9 +47,9 @@ export const VideoListItem = ({ video }: VideoListItemProps) => {
                 target.src = '/placeholder-video.png';
               }}
             />
-            {duration && (
+            {durationSeconds > 0 && (
               <span className="absolute bottom-1 right-1 bg-black bg-opacity-75 text-white text-xs px-1 py-0.5 rounded">
-                {formatDuration(duration)}
+                {formatDuration(durationSeconds)}
               </span>
             )}
           </a>
@@ -107,14 +95,24 @@ export const VideoListItem = ({ video }: VideoListItemProps) => {
               />
               <div>
                 <p className="text-sm font-medium text-gray-900">
-                  <a 
-                    href={channel.channelUrl}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="hover:text-primary-600 transition-colors"
-                  >
-                    {channel.channelTitle}
-                  </a>
+                  {onOpenChannel ? (
+                    <button
+                      onClick={() => onOpenChannel(channel.channelId)}
+                      className="hover:text-primary-600 transition-colors"
+                      title="View channel details"
+                    >
+                      {channel.channelTitle}
+                    </button>
+                  ) : (
+                    <a 
+                      href={channel.channelUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="hover:text-primary-600 transition-colors"
+                    >
+                      {channel.channelTitle}
+                    </a>
+                  )}
                 </p>
                 <div className="flex items-center space-x-2 text-xs text-gray-500">
                   <span>{formatNumber(channel.subscriberCount)} subs</span>
@@ -127,6 +125,7 @@ export const VideoListItem = ({ video }: VideoListItemProps) => {
             <div className="flex items-center space-x-4 text-xs text-gray-500">
               <span>{formatNumber(viewCount)} views</span>
               <span>{formatNumber(likeCount)} likes</span>
+              <span>{formatPercent(likeRate)} like rate</span>
             </div>
           </div>
         </div>
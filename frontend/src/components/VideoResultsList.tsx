@@ -1,19 +1,29 @@
 import { useState } from 'react';
-import type { VideoResult, VideoSortOption } from '../types';
+import type { InfluencerResult, VideoResult, VideoSortOption } from '../types';
 import { VideoCard } from './VideoCard';
 import { VideoListItem } from './VideoListItem';
+import { InfluencerCard } from './InfluencerCard';
+import { InfluencerListItem } from './InfluencerListItem';
+import { groupVideosByChannel } from '../utils/channelGroups';
 
 interface VideoResultsListProps {
   results: VideoResult[];
   onExport: () => void;
   loading: boolean;
+  hasMore?: boolean;
+  onLoadMore?: () => void;
+  loadingMore?: boolean;
+  onFindSimilar?: (influencer: InfluencerResult) => void;
+  onOpenChannel?: (channelId: string) => void;
 }
 
 type ViewMode = 'card' | 'list';
+type GroupMode = 'video' | 'channel';
 
-export const VideoResultsList = ({ results, onExport, loading }: VideoResultsListProps) => {
+export const VideoResultsList = ({ results, onExport, loading, hasMore = false, onLoadMore, loadingMore = false, onFindSimilar, onOpenChannel }: VideoResultsListProps) => {
   const [sortBy, setSortBy] = useState<VideoSortOption>('relevance');
   const [viewMode, setViewMode] = useState<ViewMode>('card');
+  const [groupMode, setGroupMode] = useState<GroupMode>('video');
 
   const sortedResults = [...results].sort((a, b) => {
     switch (sortBy) {
@@ -24,22 +34,34 @@ export const VideoResultsList = ({ results, onExport, loading }: VideoResultsLis
       case 'likeCount':
         return b.likeCount - a.likeCount;
       case 'duration':
-        // Simple duration comparison (may need refinement)
-        const aDuration = a.duration || '';
-        const bDuration = b.duration || '';
-        return bDuration.localeCompare(aDuration);
+        return b.durationSeconds - a.durationSeconds;
+      case 'likeRate':
+        return b.likeRate - a.likeRate;
+      case 'commentRate':
+        return b.commentRate - a.commentRate;
+      case 'viewsPerSubscriber':
+        return b.viewsPerSubscriber - a.viewsPerSubscriber;
+      case 'viewsPerDay':
+        return b.viewsPerDay - a.viewsPerDay;
       case 'relevance':
       default:
         return b.relevanceScore - a.relevanceScore;
     }
   });
 
+  // 频道按其排名最高的视频排序，频道内视频保持当前排序
+  const channelGroups = groupMode === 'channel' ? groupVideosByChannel(sortedResults) : [];
+
   const sortOptions = [
     { value: 'relevance', label: 'Relevance' },
     { value: 'viewCount', label: 'View Count' },
     { value: 'publishedAt', label: 'Published Date' },
     { value: 'likeCount', label: 'Like Count' },
     { value: 'duration', label: 'Duration' },
+    { value: 'likeRate', label: 'Like Rate' },
+    { value: 'commentRate', label: 'Comment Rate' },
+    { value: 'viewsPerSubscriber', label: 'Views per Subscriber' },
+    { value: 'viewsPerDay', label: 'Views per Day' },
   ];
 
   return (
@@ -53,10 +75,29 @@ export const VideoResultsList = ({ results, onExport, loading }: VideoResultsLis
             </h2>
             <p className="text-sm text-gray-600">
               Found {results.length} video{results.length !== 1 ? 's' : ''} matching your criteria
+              {groupMode === 'channel' && ` from ${channelGroups.length} channel${channelGroups.length !== 1 ? 's' : ''}`}
             </p>
           </div>
           
           <div className="flex items-center space-x-4">
+            {/* Group Mode Toggle */}
+            <div className="flex items-center bg-gray-100 rounded-lg p-1 text-sm">
+              <button
+                onClick={() => setGroupMode('video')}
+                className={`px-2 py-1 rounded ${groupMode === 'video' ? 'bg-white shadow-sm' : 'text-gray-400'}`}
+                title="Group by Video"
+              >
+                Videos
+              </button>
+              <button
+                onClick={() => setGroupMode('channel')}
+                className={`px-2 py-1 rounded ${groupMode === 'channel' ? 'bg-white shadow-sm' : 'text-gray-400'}`}
+                title="Group by Channel"
+              >
+                Channels
+              </button>
+            </div>
+
             {/* View Mode Toggle */}
             <div className="flex items-center bg-gray-100 rounded-lg p-1">
               <button
@@ -121,11 +162,29 @@ export const VideoResultsList = ({ results, onExport, loading }: VideoResultsLis
       </div>
 
       {/* Results Grid/List */}
-      {viewMode === 'card' ? (
+      {groupMode === 'channel' ? (
+        viewMode === 'card' ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6 scroll-container">
+            {channelGroups.map((influencer, index) => (
+              <div key={influencer.channelId} className="fade-in" style={{ animationDelay: `${index * 0.05}s` }}>
+                <InfluencerCard influencer={influencer} onFindSimilar={onFindSimilar} onOpenChannel={onOpenChannel} />
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-4 scroll-container">
+            {channelGroups.map((influencer, index) => (
+              <div key={influencer.channelId} className="fade-in" style={{ animationDelay: `${index * 0.03}s` }}>
+                <InfluencerListItem influencer={influencer} onFindSimilar={onFindSimilar} onOpenChannel={onOpenChannel} />
+              </div>
+            ))}
+          </div>
+        )
+      ) : viewMode === 'card' ? (
         <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6 scroll-container">
           {sortedResults.map((video, index) => (
             <div key={video.videoId} className="fade-in" style={{ animationDelay: `${index * 0.05}s` }}>
-              <VideoCard video={video} />
+              <VideoCard video={video} onOpenChannel={onOpenChannel} />
             </div>
           ))}
         </div>
@@ -133,12 +192,32 @@ export const VideoResultsList = ({ results, onExport, loading }: VideoResultsLis
         <div className="space-y-4 scroll-container">
           {sortedResults.map((video, index) => (
             <div key={video.videoId} className="fade-in" style={{ animationDelay: `${index * 0.03}s` }}>
-              <VideoListItem video={video} />
+              <VideoListItem video={video} onOpenChannel={onOpenChannel} />
             </div>
           ))}
         </div>
       )}
 
+      {/* Load More */}
+      {hasMore && onLoadMore && (
+        <div className="text-center">
+          <button
+            onClick={onLoadMore}
+            disabled={loadingMore}
+            className="btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loadingMore ? (
+              <div className="flex items-center space-x-2">
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-600"></div>
+                <span>Loading...</span>
+              </div>
+            ) : (
+              <span>Load more videos</span>
+            )}
+          </button>
+        </div>
+      )}
+
       {/* Results Summary */}
       {results.length > 0 && (
         <div className="card bg-gray-50">
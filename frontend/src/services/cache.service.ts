@@ -0,0 +1,333 @@
+import { createLogger } from './logger.service';
+
+const log = createLogger('cache');
+
+// 基于IndexedDB的结果缓存：按命名空间设置TTL，超出容量预算时按LRU淘汰
+const DB_NAME = 'youtube_influencer_finder_cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+// 只含大小和访问时间的元数据，统计和淘汰时不必读取缓存的数据本身
+const META_STORE_NAME = 'meta';
+const LAST_ACCESSED_INDEX = 'lastAccessed';
+
+export type CacheNamespace = 'search' | 'keywords' | 'videos' | 'channels';
+
+// 各命名空间的默认有效期（videos/channels 各字段的新鲜度由 EntityStoreService 另行判断）
+export const CACHE_TTLS: Record<CacheNamespace, number> = {
+  search: 30 * 60 * 1000,
+  keywords: 24 * 60 * 60 * 1000,
+  videos: 24 * 60 * 60 * 1000,
+  channels: 24 * 60 * 60 * 1000
+};
+
+// 缓存总容量预算（按序列化后的字节数计算）
+export const CACHE_BUDGET_BYTES = 50 * 1024 * 1024;
+
+// 迁移前写在localStorage中的缓存前缀
+const LEGACY_PREFIXES = ['search_', 'keywords_', 'openai_', 'youtube_'];
+
+interface CacheMeta {
+  id: string; // `${namespace}:${key}`
+  namespace: CacheNamespace;
+  size: number;
+  expiry: number;
+  lastAccessed: number;
+}
+
+interface CacheEntry extends CacheMeta {
+  data: unknown;
+}
+
+const toMeta = ({ id, namespace, size, expiry, lastAccessed }: CacheMeta): CacheMeta =>
+  ({ id, namespace, size, expiry, lastAccessed });
+
+export interface CacheStats {
+  entries: number;
+  bytesUsed: number;
+  budgetBytes: number;
+  hits: number;
+  misses: number;
+  hitRate: number; // 本次会话的命中率
+  namespaces: Partial<Record<CacheNamespace, { entries: number; bytes: number }>>;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export class CacheService {
+  private static dbPromise: Promise<IDBDatabase | null> | null = null;
+  private static hits = 0;
+  private static misses = 0;
+  // 已缓存的总字节数，首次写入时由元数据计算，之后随写入和删除增减
+  private static bytesUsed: number | null = null;
+
+  static async get<T>(namespace: CacheNamespace, key: string): Promise<T | null> {
+    const found = await this.getMany<T>(namespace, [key]);
+    return found.get(key) ?? null;
+  }
+
+  // 批量读取，只返回存在且未过期的条目
+  static async getMany<T>(namespace: CacheNamespace, keys: string[]): Promise<Map<string, T>> {
+    const found = new Map<string, T>();
+    if (keys.length === 0) return found;
+
+    try {
+      const db = await this.openDb();
+      if (!db) return found;
+
+      const transaction = db.transaction([STORE_NAME, META_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      const metaStore = transaction.objectStore(META_STORE_NAME);
+      const entries = await Promise.all(
+        keys.map(key => requestToPromise<CacheEntry | undefined>(store.get(`${namespace}:${key}`)))
+      );
+
+      const now = Date.now();
+      entries.forEach((entry, index) => {
+        if (!entry || now > entry.expiry) {
+          if (entry) {
+            store.delete(entry.id);
+            metaStore.delete(entry.id);
+            this.adjustBytesUsed(-entry.size);
+          }
+          this.misses++;
+          return;
+        }
+
+        // 记录访问时间用于LRU淘汰（只更新元数据）
+        metaStore.put({ ...toMeta(entry), lastAccessed: now });
+        found.set(keys[index], entry.data as T);
+        this.hits++;
+      });
+
+      await transactionDone(transaction);
+    } catch (error) {
+      log.error('Cache get error:', error);
+      this.misses += keys.length - found.size;
+    }
+    return found;
+  }
+
+  static async set(namespace: CacheNamespace, key: string, data: unknown, ttlMs: number = CACHE_TTLS[namespace]): Promise<void> {
+    await this.setMany(namespace, [{ key, data }], ttlMs);
+  }
+
+  // 批量写入：单个事务，写完后统一检查容量预算
+  static async setMany(
+    namespace: CacheNamespace,
+    items: Array<{ key: string; data: unknown }>,
+    ttlMs: number = CACHE_TTLS[namespace]
+  ): Promise<void> {
+    if (items.length === 0) return;
+
+    try {
+      const db = await this.openDb();
+      if (!db) return;
+
+      const now = Date.now();
+      const entries: CacheEntry[] = [];
+      items.forEach(({ key, data }) => {
+        const size = new TextEncoder().encode(JSON.stringify(data)).length;
+        if (size > CACHE_BUDGET_BYTES) {
+          log.warn(`💾 Cache entry too large (${size} bytes) - skipped: ${namespace}:${key}`);
+          return;
+        }
+        entries.push({
+          id: `${namespace}:${key}`,
+          namespace,
+          data,
+          size,
+          expiry: now + ttlMs,
+          lastAccessed: now
+        });
+      });
+
+      await this.initBytesUsed(db);
+
+      const transaction = db.transaction([STORE_NAME, META_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      const metaStore = transaction.objectStore(META_STORE_NAME);
+      // 覆盖已有条目时按旧条目的大小计算差值
+      const previous = await Promise.all(
+        entries.map(entry => requestToPromise<CacheMeta | undefined>(metaStore.get(entry.id)))
+      );
+      entries.forEach((entry, index) => {
+        store.put(entry);
+        metaStore.put(toMeta(entry));
+        this.adjustBytesUsed(entry.size - (previous[index]?.size || 0));
+      });
+      await transactionDone(transaction);
+
+      if ((this.bytesUsed ?? 0) > CACHE_BUDGET_BYTES) {
+        await this.enforceBudget(db);
+      }
+    } catch (error) {
+      log.error('Cache set error:', error);
+    }
+  }
+
+  // 删除过期条目，返回删除数量
+  static async clearExpired(): Promise<number> {
+    const now = Date.now();
+    return this.deleteWhere(entry => now > entry.expiry);
+  }
+
+  // 清空指定命名空间（不指定时清空全部）
+  static async clear(namespaces?: CacheNamespace[]): Promise<number> {
+    return this.deleteWhere(entry => !namespaces || namespaces.includes(entry.namespace));
+  }
+
+  static async getStats(): Promise<CacheStats> {
+    const entries = await this.getAllMeta();
+    const namespaces: CacheStats['namespaces'] = {};
+
+    entries.forEach(entry => {
+      const stats = (namespaces[entry.namespace] ??= { entries: 0, bytes: 0 });
+      stats.entries++;
+      stats.bytes += entry.size;
+    });
+
+    const lookups = this.hits + this.misses;
+    return {
+      entries: entries.length,
+      bytesUsed: entries.reduce((sum, entry) => sum + entry.size, 0),
+      budgetBytes: CACHE_BUDGET_BYTES,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+      namespaces
+    };
+  }
+
+  // 清理迁移前写在localStorage中的缓存（保留设置等其他数据）
+  static clearLegacyStorage(): number {
+    try {
+      const legacyKeys = Object.keys(localStorage)
+        .filter(key => LEGACY_PREFIXES.some(prefix => key.startsWith(prefix)));
+      legacyKeys.forEach(key => localStorage.removeItem(key));
+      if (legacyKeys.length > 0) {
+        log.info(`🧹 Removed ${legacyKeys.length} legacy localStorage cache entries`);
+      }
+      return legacyKeys.length;
+    } catch (error) {
+      log.warn('Failed to clear legacy cache:', error);
+      return 0;
+    }
+  }
+
+  // 总大小超出预算时，沿 lastAccessed 索引从最久未访问的条目开始淘汰，回到预算内即停止
+  private static async enforceBudget(db: IDBDatabase): Promise<void> {
+    const transaction = db.transaction([STORE_NAME, META_STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const metaStore = transaction.objectStore(META_STORE_NAME);
+    let evicted = 0;
+
+    await new Promise<void>((resolve, reject) => {
+      const request = metaStore.index(LAST_ACCESSED_INDEX).openCursor();
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || (this.bytesUsed ?? 0) <= CACHE_BUDGET_BYTES) {
+          resolve();
+          return;
+        }
+        const meta = cursor.value as CacheMeta;
+        store.delete(meta.id);
+        cursor.delete();
+        this.adjustBytesUsed(-meta.size);
+        evicted++;
+        cursor.continue();
+      };
+    });
+
+    await transactionDone(transaction);
+    log.info(`💾 Cache over budget - evicted ${evicted} least recently used entries`);
+  }
+
+  private static async initBytesUsed(db: IDBDatabase): Promise<void> {
+    if (this.bytesUsed !== null) return;
+    const transaction = db.transaction(META_STORE_NAME, 'readonly');
+    const metas = await requestToPromise<CacheMeta[]>(transaction.objectStore(META_STORE_NAME).getAll());
+    this.bytesUsed ??= metas.reduce((sum, meta) => sum + meta.size, 0);
+  }
+
+  // 尚未计算总大小时不记录差值，首次写入时会从元数据重新计算
+  private static adjustBytesUsed(delta: number): void {
+    if (this.bytesUsed !== null) {
+      this.bytesUsed = Math.max(0, this.bytesUsed + delta);
+    }
+  }
+
+  private static async deleteWhere(predicate: (meta: CacheMeta) => boolean): Promise<number> {
+    try {
+      const db = await this.openDb();
+      if (!db) return 0;
+
+      const metas = (await this.getAllMeta()).filter(predicate);
+      if (metas.length === 0) return 0;
+
+      const transaction = db.transaction([STORE_NAME, META_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      const metaStore = transaction.objectStore(META_STORE_NAME);
+      metas.forEach(meta => {
+        store.delete(meta.id);
+        metaStore.delete(meta.id);
+        this.adjustBytesUsed(-meta.size);
+      });
+      await transactionDone(transaction);
+      return metas.length;
+    } catch (error) {
+      log.error('Cache delete error:', error);
+      return 0;
+    }
+  }
+
+  private static async getAllMeta(): Promise<CacheMeta[]> {
+    try {
+      const db = await this.openDb();
+      if (!db) return [];
+      const transaction = db.transaction(META_STORE_NAME, 'readonly');
+      return await requestToPromise<CacheMeta[]>(transaction.objectStore(META_STORE_NAME).getAll());
+    } catch (error) {
+      log.error('Cache read error:', error);
+      return [];
+    }
+  }
+
+  // IndexedDB不可用（如部分隐私模式）时返回null，缓存退化为不缓存
+  private static openDb(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          log.warn('💾 IndexedDB unavailable - caching disabled');
+          resolve(null);
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          db.createObjectStore(META_STORE_NAME, { keyPath: 'id' })
+            .createIndex(LAST_ACCESSED_INDEX, 'lastAccessed');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          log.warn('💾 Failed to open IndexedDB - caching disabled:', request.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+}
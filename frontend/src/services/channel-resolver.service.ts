@@ -0,0 +1,61 @@
+import { EntityStoreService } from './entity-store.service';
+import { YouTubeTransportService } from './youtube-transport.service';
+import { createLogger } from './logger.service';
+import type { YouTubeApiService } from './youtube-api.service';
+import type { ChannelLink } from '../utils/channelLinks';
+
+const log = createLogger('youtube');
+
+// 把 handle / 自定义URL / 视频链接解析为频道ID：channels.list(forHandle/forUsername) 或视频的 snippet.channelId，每次1单位
+export class ChannelResolverService {
+  // 本次会话内已解析的链接，重复粘贴时不再消耗配额
+  private static resolved = new Map<string, string | null>();
+
+  // 频道不存在时返回 null；请求失败时抛出错误
+  static async resolve(api: YouTubeApiService, link: ChannelLink, signal?: AbortSignal): Promise<string | null> {
+    if (link.kind === 'channelId') {
+      return link.value;
+    }
+
+    const cacheKey = `${YouTubeTransportService.getMode()}:${link.kind}:${link.value.toLowerCase()}`;
+    const cached = this.resolved.get(cacheKey);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const channelId = await this.lookup(api, link, signal);
+    this.resolved.set(cacheKey, channelId);
+    log.info(`🔗 Resolved ${link.kind} "${link.value}" -> ${channelId || 'not found'}`);
+    return channelId;
+  }
+
+  private static async lookup(
+    api: YouTubeApiService,
+    link: Exclude<ChannelLink, { kind: 'channelId' }>,
+    signal?: AbortSignal
+  ): Promise<string | null> {
+    switch (link.kind) {
+      case 'handle':
+        return this.findChannel(api, { forHandle: link.value }, signal);
+      case 'username':
+        return this.findChannel(api, { forUsername: link.value }, signal);
+      case 'customUrl':
+        // /c/ 自定义URL没有对应的查询参数；大多数频道的handle与之相同，其次尝试旧版用户名
+        return await this.findChannel(api, { forHandle: `@${link.value}` }, signal)
+          ?? this.findChannel(api, { forUsername: link.value }, signal);
+      case 'video': {
+        const [video] = await EntityStoreService.getVideos(api, [link.value], ['snippet'], signal);
+        return video?.snippet?.channelId || null;
+      }
+    }
+  }
+
+  private static async findChannel(
+    api: YouTubeApiService,
+    params: { forHandle?: string; forUsername?: string },
+    signal?: AbortSignal
+  ): Promise<string | null> {
+    const data = await api.channels({ part: 'id', ...params }, signal);
+    return data.items?.[0]?.id || null;
+  }
+}
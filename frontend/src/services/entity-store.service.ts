@@ -0,0 +1,195 @@
+import { CacheService } from './cache.service';
+import { YouTubeTransportService } from './youtube-transport.service';
+import type { YouTubeApiService, YouTubeChannelItem, YouTubeVideoItem } from './youtube-api.service';
+import { createLogger } from './logger.service';
+
+const log = createLogger('cache');
+
+export type VideoPart = 'snippet' | 'statistics' | 'contentDetails';
+export type ChannelPart = 'snippet' | 'statistics' | 'contentDetails' | 'brandingSettings';
+type EntityPart = VideoPart | ChannelPart;
+type EntityKind = 'videos' | 'channels';
+
+const HOUR = 60 * 60 * 1000;
+
+// 各字段的新鲜度：统计数据变化快，每小时刷新；标题/描述/时长等基本信息每天刷新
+export const ENTITY_FRESHNESS: Record<EntityPart, number> = {
+  statistics: HOUR,
+  snippet: 24 * HOUR,
+  contentDetails: 24 * HOUR,
+  brandingSettings: 24 * HOUR
+};
+
+// videos.list / channels.list 单次最多50个id
+const MAX_IDS_PER_REQUEST = 50;
+// 内存中每类实体最多保留的条数，超出时淘汰最久未使用的（仍可从IndexedDB重新加载）
+const MAX_RECORDS_PER_KIND = 5000;
+
+interface StoredPart {
+  data: unknown;
+  fetchedAt: number;
+}
+
+interface EntityRecord {
+  id: string;
+  parts: Partial<Record<EntityPart, StoredPart>>;
+  notFoundAt?: number; // API未返回（已删除/私有），在统计数据的新鲜度内不再重复请求
+}
+
+// 规范化的视频/频道实体缓存：按字段记录获取时间，多次搜索之间复用，
+// 只对缺失或过期的id调用 videos.list / channels.list
+export class EntityStoreService {
+  private static records: Record<EntityKind, Map<string, EntityRecord>> = {
+    videos: new Map(),
+    channels: new Map()
+  };
+
+  static getVideos(
+    api: YouTubeApiService,
+    ids: string[],
+    parts: VideoPart[],
+    signal?: AbortSignal
+  ): Promise<YouTubeVideoItem[]> {
+    return this.getEntities<YouTubeVideoItem>('videos', ids, parts, (batch, part) =>
+      api.videos({ part, id: batch }, signal).then(data => data.items || [])
+    );
+  }
+
+  static getChannels(
+    api: YouTubeApiService,
+    ids: string[],
+    parts: ChannelPart[],
+    signal?: AbortSignal
+  ): Promise<YouTubeChannelItem[]> {
+    return this.getEntities<YouTubeChannelItem>('channels', ids, parts, (batch, part) =>
+      api.channels({ part, id: batch }, signal).then(data => data.items || [])
+    );
+  }
+
+  // 清空内存中的实体（持久化部分随 CacheService.clear 一起清理）
+  static clear(): void {
+    this.records.videos.clear();
+    this.records.channels.clear();
+  }
+
+  private static async getEntities<T extends { id: string }>(
+    kind: EntityKind,
+    ids: string[],
+    parts: EntityPart[],
+    fetchBatch: (batch: string[], part: string) => Promise<T[]>
+  ): Promise<T[]> {
+    const uniqueIds = [...new Set(ids)];
+    const records = this.records[kind];
+    await this.hydrate(kind, uniqueIds);
+    uniqueIds.forEach(id => {
+      const key = this.storageKey(id);
+      const record = records.get(key);
+      if (record) this.remember(kind, key, record);
+    });
+
+    // 按需要刷新的字段组合分组，同一组合的id合并请求
+    const now = Date.now();
+    const groups = new Map<string, string[]>();
+    uniqueIds.forEach(id => {
+      const stale = this.getStaleParts(records.get(this.storageKey(id)), parts, now);
+      if (stale.length > 0) {
+        const part = stale.join(',');
+        groups.set(part, [...(groups.get(part) || []), id]);
+      }
+    });
+
+    const fetchedCount = [...groups.values()].reduce((sum, group) => sum + group.length, 0);
+    log.debug(`🗃️ ${kind}: ${uniqueIds.length - fetchedCount}/${uniqueIds.length} served from entity store, fetching ${fetchedCount}`);
+
+    for (const [part, groupIds] of groups) {
+      for (let i = 0; i < groupIds.length; i += MAX_IDS_PER_REQUEST) {
+        const batch = groupIds.slice(i, i + MAX_IDS_PER_REQUEST);
+        const items = await fetchBatch(batch, part);
+        this.store(kind, batch, part.split(',') as EntityPart[], items);
+      }
+    }
+
+    return uniqueIds
+      .map(id => this.assemble<T>(records.get(this.storageKey(id)), parts))
+      .filter((item): item is T => item !== null);
+  }
+
+  private static getStaleParts(record: EntityRecord | undefined, parts: EntityPart[], now: number): EntityPart[] {
+    if (record?.notFoundAt && now - record.notFoundAt < ENTITY_FRESHNESS.statistics) {
+      return [];
+    }
+    return parts.filter(part => {
+      const stored = record?.parts[part];
+      return !stored || now - stored.fetchedAt > ENTITY_FRESHNESS[part];
+    });
+  }
+
+  private static assemble<T>(record: EntityRecord | undefined, parts: EntityPart[]): T | null {
+    if (!record || parts.some(part => !record.parts[part])) {
+      return null;
+    }
+    const item: Record<string, unknown> = { id: record.id };
+    parts.forEach(part => {
+      item[part] = record.parts[part]?.data;
+    });
+    return item as T;
+  }
+
+  private static store(kind: EntityKind, requestedIds: string[], parts: EntityPart[], items: Array<{ id: string }>): void {
+    const now = Date.now();
+    const itemsById = new Map(items.map(item => [item.id, item as Record<string, unknown>]));
+    const updated: Array<{ key: string; data: EntityRecord }> = [];
+
+    requestedIds.forEach(id => {
+      const key = this.storageKey(id);
+      const record: EntityRecord = this.records[kind].get(key) || { id, parts: {} };
+      const item = itemsById.get(id);
+
+      if (item) {
+        parts.forEach(part => {
+          if (item[part] !== undefined) {
+            record.parts[part] = { data: item[part], fetchedAt: now };
+          }
+        });
+        delete record.notFoundAt;
+      } else {
+        // 已删除/私有的实体不再保留之前获取的字段
+        record.parts = {};
+        record.notFoundAt = now;
+      }
+
+      this.remember(kind, key, record);
+      updated.push({ key, data: record });
+    });
+
+    void CacheService.setMany(kind, updated);
+  }
+
+  // 内存中没有的实体从IndexedDB加载，页面刷新后仍可复用
+  private static async hydrate(kind: EntityKind, ids: string[]): Promise<void> {
+    const missing = ids
+      .map(id => this.storageKey(id))
+      .filter(key => !this.records[kind].has(key));
+    if (missing.length === 0) return;
+
+    const found = await CacheService.getMany<EntityRecord>(kind, missing);
+    found.forEach((record, key) => this.remember(kind, key, record));
+  }
+
+  // Map按插入顺序遍历：重新插入把条目移到末尾，超出上限时从头部淘汰
+  private static remember(kind: EntityKind, key: string, record: EntityRecord): void {
+    const records = this.records[kind];
+    records.delete(key);
+    records.set(key, record);
+    for (const oldestKey of records.keys()) {
+      if (records.size <= MAX_RECORDS_PER_KIND) break;
+      records.delete(oldestKey);
+    }
+  }
+
+  // 内存和IndexedDB中的key；mock/fixture模式的数据不能与真实数据混用
+  private static storageKey(id: string): string {
+    const mode = YouTubeTransportService.getMode();
+    return mode === 'live' ? id : `${mode}:${id}`;
+  }
+}
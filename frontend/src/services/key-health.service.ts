@@ -0,0 +1,55 @@
+import { SettingsService } from './settings.service';
+import { QuotaService } from './quota.service';
+import { YouTubeService } from './youtube.service';
+import { createLogger } from './logger.service';
+
+const log = createLogger('youtube');
+
+// API key 健康维护：配额周期切换后恢复已用尽的key，定期重新检测error状态的key
+export class KeyHealthService {
+  static readonly CHECK_INTERVAL_MS = 10 * 60 * 1000;
+  static readonly PROBE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+  static recoverExhaustedKeys(now: Date = new Date()): number {
+    const windowStart = QuotaService.getWindowStart(now).toISOString();
+    return SettingsService.recoverExhaustedKeys(windowStart).length;
+  }
+
+  // 对到期的error状态key调用testApiConnection（每次1配额单位），恢复已修复的key
+  static async reprobeErrorKeys(now: Date = new Date()): Promise<number> {
+    const dueKeys = SettingsService.getSettings().youtubeApiKeys.filter(key => {
+      if (key.status !== 'error') {
+        return false;
+      }
+      const lastChecked = key.lastProbedAt || key.lastUsed;
+      return !lastChecked || now.getTime() - new Date(lastChecked).getTime() >= this.PROBE_INTERVAL_MS;
+    });
+
+    let recovered = 0;
+    const youtubeService = new YouTubeService();
+
+    for (const key of dueKeys) {
+      log.info(`🩺 Re-probing API key: ${key.name}`);
+      const result = await youtubeService.testApiConnection(key);
+
+      if (result.success) {
+        SettingsService.reactivateKey(key.id);
+        recovered++;
+      } else if (result.details?.reason === 'quotaExceeded') {
+        // key本身已恢复可用，只是当前周期配额用完，等待周期切换后自动恢复
+        SettingsService.markKeyAsExhausted(key.id, result.message);
+      } else {
+        SettingsService.recordKeyProbe(key.id, result.message);
+      }
+    }
+
+    return recovered;
+  }
+
+  // 返回是否有key恢复为active
+  static async runMaintenance(): Promise<boolean> {
+    const recoveredExhausted = this.recoverExhaustedKeys();
+    const recoveredErrors = await this.reprobeErrorKeys();
+    return recoveredExhausted + recoveredErrors > 0;
+  }
+}
@@ -0,0 +1,103 @@
+import { SettingsService, type KeySchedulingPolicy, type YouTubeApiKey } from './settings.service';
+import { QuotaService } from './quota.service';
+import type { YouTubeEndpoint } from './youtube-api.service';
+
+export const DEFAULT_SCHEDULING_POLICY: KeySchedulingPolicy = 'least-used';
+
+// 按剩余配额、近期错误率和权重为每个请求选择API key，让多个key分担流量
+export class KeySchedulerService {
+  private static readonly ERROR_WINDOW = 20; // 统计最近20次请求的结果
+  private static readonly MAX_ERROR_RATE = 0.5; // 错误率超过50%的key仅在没有其他选择时使用
+
+  private static outcomes = new Map<string, boolean[]>();
+  private static roundRobinWeights = new Map<string, number>();
+
+  static pickKey(endpoint: YouTubeEndpoint): YouTubeApiKey | null {
+    const settings = SettingsService.getSettings();
+    const cost = QuotaService.getCost(endpoint);
+
+    const candidates = settings.youtubeApiKeys.filter(key =>
+      key.status === 'active' && QuotaService.getRemaining(key) >= cost
+    );
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const healthy = candidates.filter(key => this.getErrorRate(key.id) < this.MAX_ERROR_RATE);
+    const pool = healthy.length > 0 ? healthy : candidates;
+
+    const policy = settings.keySchedulingPolicy || DEFAULT_SCHEDULING_POLICY;
+    const picked = this.applyPolicy(policy, pool);
+
+    // 同步当前使用的key，便于设置面板显示；只在切换key时写入localStorage
+    if (settings.youtubeApiKeys[settings.currentKeyIndex]?.id !== picked.id) {
+      SettingsService.setCurrentKey(picked.id);
+    }
+    return picked;
+  }
+
+  static hasAvailableKey(endpoint: YouTubeEndpoint): boolean {
+    const cost = QuotaService.getCost(endpoint);
+    return SettingsService.getSettings().youtubeApiKeys.some(key =>
+      key.status === 'active' && QuotaService.getRemaining(key) >= cost
+    );
+  }
+
+  static recordOutcome(keyId: string, success: boolean): void {
+    const history = this.outcomes.get(keyId) || [];
+    history.push(success);
+    if (history.length > this.ERROR_WINDOW) {
+      history.shift();
+    }
+    this.outcomes.set(keyId, history);
+  }
+
+  static getErrorRate(keyId: string): number {
+    const history = this.outcomes.get(keyId);
+    if (!history || history.length === 0) {
+      return 0;
+    }
+    return history.filter(success => !success).length / history.length;
+  }
+
+  private static applyPolicy(policy: KeySchedulingPolicy, pool: YouTubeApiKey[]): YouTubeApiKey {
+    switch (policy) {
+      case 'round-robin':
+        return this.pickWeightedRoundRobin(pool);
+      case 'priority':
+        // 权重高的优先，权重相同时按列表顺序
+        return [...pool].sort((a, b) => this.getWeight(b) - this.getWeight(a))[0];
+      case 'least-used':
+      default:
+        return pool.reduce((best, key) => this.getLeastUsedScore(key) > this.getLeastUsedScore(best) ? key : best);
+    }
+  }
+
+  // 平滑加权轮询：权重为2的key获得两倍请求，且不会连续集中在同一个key上
+  private static pickWeightedRoundRobin(pool: YouTubeApiKey[]): YouTubeApiKey {
+    let totalWeight = 0;
+    let best = pool[0];
+
+    pool.forEach(key => {
+      const weight = this.getWeight(key);
+      const current = (this.roundRobinWeights.get(key.id) || 0) + weight;
+      this.roundRobinWeights.set(key.id, current);
+      totalWeight += weight;
+      if (current > (this.roundRobinWeights.get(best.id) || 0)) {
+        best = key;
+      }
+    });
+
+    this.roundRobinWeights.set(best.id, (this.roundRobinWeights.get(best.id) || 0) - totalWeight);
+    return best;
+  }
+
+  private static getLeastUsedScore(key: YouTubeApiKey): number {
+    const remainingRatio = QuotaService.getRemaining(key) / Math.max(1, key.quotaLimit);
+    return remainingRatio * this.getWeight(key) * (1 - this.getErrorRate(key.id));
+  }
+
+  private static getWeight(key: YouTubeApiKey): number {
+    return Math.max(1, key.weight || 1);
+  }
+}
@@ -0,0 +1,188 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogNamespace = 'app' | 'youtube' | 'settings' | 'openai' | 'scoring' | 'cache';
+
+export interface LogEntry {
+  id: number;
+  timestamp: number;
+  level: LogLevel;
+  namespace: LogNamespace;
+  message: string;
+  data?: string; // 已脱敏的序列化参数
+}
+
+export interface Logger {
+  debug: (message: string, ...data: unknown[]) => void;
+  info: (message: string, ...data: unknown[]) => void;
+  warn: (message: string, ...data: unknown[]) => void;
+  error: (message: string, ...data: unknown[]) => void;
+}
+
+type LogListener = (entries: LogEntry[]) => void;
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+export const LOG_NAMESPACES: LogNamespace[] = ['app', 'youtube', 'settings', 'openai', 'scoring', 'cache'];
+
+const LOG_BUFFER_SIZE = 1000;
+const LEVEL_STORAGE_KEY = 'youtube_influencer_finder_log_level';
+const REDACTED = '[REDACTED]';
+
+// 已知格式的密钥：Google API key、OpenAI key、URL中的 key 参数、Authorization 头
+const SECRET_PATTERNS: RegExp[] = [
+  /AIza[0-9A-Za-z_-]{20,}/g,
+  /sk-[0-9A-Za-z_-]{16,}/g,
+  /([?&]key=)[^&\s"]+/g,
+  /(Bearer\s+)[^\s"]+/g
+];
+
+// 对象中这些字段的值一律替换，无论内容是什么格式
+const SECRET_FIELDS = /^(key|apikey|api_key|youtubeapikey|openaiapikey|authorization|token|secret)$/i;
+
+const CONSOLE_METHODS: Record<LogLevel, (...args: unknown[]) => void> = {
+  debug: console.debug,
+  info: console.info,
+  warn: console.warn,
+  error: console.error
+};
+
+// 分级、分命名空间的日志：所有输出先脱敏，最近的记录保存在环形缓冲区供调试面板查看和下载
+export class LoggerService {
+  private static entries: LogEntry[] = [];
+  private static nextId = 1;
+  private static secrets = new Set<string>();
+  private static listeners = new Set<LogListener>();
+  private static consoleLevel: LogLevel = LoggerService.loadConsoleLevel();
+
+  static log(level: LogLevel, namespace: LogNamespace, message: string, data: unknown[]): void {
+    const entry: LogEntry = {
+      id: this.nextId++,
+      timestamp: Date.now(),
+      level,
+      namespace,
+      message: this.redact(message),
+      data: data.length > 0 ? this.redact(this.serialize(data.length === 1 ? data[0] : data)) : undefined
+    };
+
+    this.entries.push(entry);
+    if (this.entries.length > LOG_BUFFER_SIZE) {
+      this.entries.splice(0, this.entries.length - LOG_BUFFER_SIZE);
+    }
+
+    if (LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(this.consoleLevel)) {
+      const prefix = `[${namespace}] ${entry.message}`;
+      if (entry.data) {
+        CONSOLE_METHODS[level](prefix, entry.data);
+      } else {
+        CONSOLE_METHODS[level](prefix);
+      }
+    }
+    this.notify();
+  }
+
+  // 用户配置的密钥不一定符合已知格式（如模拟服务器的测试key），保存设置时登记以便精确替换
+  static registerSecrets(values: Array<string | undefined>): void {
+    values.forEach(value => {
+      if (value && value.trim().length >= 6) {
+        this.secrets.add(value.trim());
+      }
+    });
+  }
+
+  static redact(text: string): string {
+    let result = text;
+    this.secrets.forEach(secret => {
+      result = result.split(secret).join(REDACTED);
+    });
+    SECRET_PATTERNS.forEach(pattern => {
+      result = result.replace(pattern, (match, prefix?: string) =>
+        typeof prefix === 'string' && match.startsWith(prefix) ? `${prefix}${REDACTED}` : REDACTED
+      );
+    });
+    return result;
+  }
+
+  static getEntries(): LogEntry[] {
+    return this.entries;
+  }
+
+  static clear(): void {
+    this.entries = [];
+    this.notify();
+  }
+
+  static getConsoleLevel(): LogLevel {
+    return this.consoleLevel;
+  }
+
+  // 只影响浏览器控制台的输出，缓冲区始终记录所有级别
+  static setConsoleLevel(level: LogLevel): void {
+    this.consoleLevel = level;
+    try {
+      localStorage.setItem(LEVEL_STORAGE_KEY, level);
+    } catch {
+      // 存储不可用时只在本次会话生效
+    }
+  }
+
+  static subscribe(listener: LogListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // 导出为纯文本，每行一条记录，便于附在问题反馈中
+  static exportText(): string {
+    return this.entries
+      .map(entry => {
+        const line = `${new Date(entry.timestamp).toISOString()} ${entry.level.toUpperCase().padEnd(5)} [${entry.namespace}] ${entry.message}`;
+        return entry.data ? `${line} ${entry.data}` : line;
+      })
+      .join('\n');
+  }
+
+  private static serialize(value: unknown): string {
+    if (typeof value === 'string') {
+      return value;
+    }
+    try {
+      return JSON.stringify(value, (field, item: unknown) => {
+        if (field && SECRET_FIELDS.test(field) && typeof item === 'string') {
+          return REDACTED;
+        }
+        if (item instanceof Error) {
+          return { ...item, name: item.name, message: item.message };
+        }
+        return item;
+      }) ?? String(value);
+    } catch {
+      return String(value);
+    }
+  }
+
+  private static loadConsoleLevel(): LogLevel {
+    try {
+      const stored = localStorage.getItem(LEVEL_STORAGE_KEY);
+      if (stored && LOG_LEVELS.includes(stored as LogLevel)) {
+        return stored as LogLevel;
+      }
+    } catch {
+      // 忽略，使用默认级别
+    }
+    return import.meta.env.DEV ? 'info' : 'warn';
+  }
+
+  private static notify(): void {
+    if (this.listeners.size === 0) {
+      return;
+    }
+    const snapshot = [...this.entries];
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+export const createLogger = (namespace: LogNamespace): Logger => ({
+  debug: (message, ...data) => LoggerService.log('debug', namespace, message, data),
+  info: (message, ...data) => LoggerService.log('info', namespace, message, data),
+  warn: (message, ...data) => LoggerService.log('warn', namespace, message, data),
+  error: (message, ...data) => LoggerService.log('error', namespace, message, data)
+});
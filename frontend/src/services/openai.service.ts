@@ -1,4 +1,8 @@
 import { PromptSelector } from '../config/prompts';
+import { CacheService } from './cache.service';
+import { createLogger, LoggerService } from './logger.service';
+
+const log = createLogger('openai');
 
 interface KeywordExpansionRequest {
   topic: string;
@@ -21,12 +25,13 @@ export class OpenAIService {
       throw new Error('OpenAI API key is required');
     }
     this.apiKey = apiKey;
+    LoggerService.registerSecrets([apiKey]);
   }
 
   // 测试OpenAI API连接状态
   async testApiConnection(): Promise<{ success: boolean; message: string; details?: any }> {
     try {
-      console.log('🔧 Testing OpenAI API connection...');
+      log.info('🔧 Testing OpenAI API connection...');
       
       // 使用简单的聊天请求测试API
       const response = await fetch('https://api.openai.com/v1/chat/completions', {
@@ -49,14 +54,14 @@ export class OpenAIService {
       });
 
       if (response.ok) {
-        console.log('✅ OpenAI API connection successful');
+        log.info('✅ OpenAI API connection successful');
         return {
           success: true,
           message: '✅ OpenAI API连接正常'
         };
       } else {
         const errorData = await response.json().catch(() => ({}));
-        console.error('❌ OpenAI API connection failed:', errorData);
+        log.error('❌ OpenAI API connection failed:', errorData);
         
         let message = '❌ OpenAI API连接失败';
         if (response.status === 401) {
@@ -79,7 +84,7 @@ export class OpenAIService {
         };
       }
     } catch (error) {
-      console.error('❌ OpenAI API test failed:', error);
+      log.error('❌ OpenAI API test failed:', error);
       return {
         success: false,
         message: '❌ 网络连接失败或API不可用',
@@ -96,18 +101,18 @@ export class OpenAIService {
     
     // Check cache first - 包含scenario和API key标识以避免不同场景和API key使用相同缓存
     const cacheKey = `keywords_${topic}_${maxKeywords}_${language}_${detectedScenario}_${this.getApiKeyHash()}`;
-    const cached = this.getFromCache(cacheKey);
+    const cached = await CacheService.get<KeywordExpansionResponse>('keywords', cacheKey);
     if (cached) {
-      console.log(`Returning cached keywords for topic: ${topic} (scenario: ${detectedScenario})`);
+      log.info(`Returning cached keywords for topic: ${topic} (scenario: ${detectedScenario})`);
       return cached;
     }
 
     try {
-      console.log(`Expanding keywords for topic: ${topic}`);
+      log.info(`Expanding keywords for topic: ${topic}`);
 
       const prompt = PromptSelector.getPrompt(topic, detectedScenario);
       
-      console.log(`Using ${detectedScenario} scenario for topic: ${topic}`);
+      log.info(`Using ${detectedScenario} scenario for topic: ${topic}`);
 
       const response = await fetch('https://api.openai.com/v1/chat/completions', {
         method: 'POST',
@@ -156,14 +161,14 @@ export class OpenAIService {
         confidence
       };
 
-      // Cache the result for 24 hours
-      this.setCache(cacheKey, result, 24 * 60 * 60 * 1000);
+      // Cache the result（keywords命名空间默认24小时）
+      await CacheService.set('keywords', cacheKey, result);
 
-      console.log(`Successfully expanded ${expandedKeywords.length} keywords for topic: ${topic}`);
+      log.info(`Successfully expanded ${expandedKeywords.length} keywords for topic: ${topic}`);
       return result;
 
     } catch (error) {
-      console.error('OpenAI keyword expansion error:', error);
+      log.error('OpenAI keyword expansion error:', error);
       
       // Fallback to basic keyword expansion
       const fallbackKeywords = this.generateFallbackKeywords(topic);
@@ -226,33 +231,6 @@ export class OpenAIService {
     return fallbackKeywords.slice(0, 8);
   }
 
-  private getFromCache(key: string): any {
-    try {
-      const cached = localStorage.getItem(key);
-      if (!cached) return null;
-
-      const { data, expiry } = JSON.parse(cached);
-      if (Date.now() > expiry) {
-        localStorage.removeItem(key);
-        return null;
-      }
-
-      return data;
-    } catch (error) {
-      console.error('Cache get error:', error);
-      return null;
-    }
-  }
-
-  private setCache(key: string, data: any, ttlMs: number): void {
-    try {
-      const expiry = Date.now() + ttlMs;
-      localStorage.setItem(key, JSON.stringify({ data, expiry }));
-    } catch (error) {
-      console.error('Cache set error:', error);
-    }
-  }
-
   // 生成API key的安全哈希值用于缓存key
   private getApiKeyHash(): string {
     // 使用API key的前8位和后4位创建唯一标识，避免泄露完整key
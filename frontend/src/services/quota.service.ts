@@ -0,0 +1,133 @@
+import { SettingsService, type YouTubeApiKey } from './settings.service';
+import type { YouTubeEndpoint } from './youtube-api.service';
+import { createLogger } from './logger.service';
+
+const log = createLogger('youtube');
+
+// YouTube Data API v3 各接口的配额消耗（单位/次请求）
+// https://developers.google.com/youtube/v3/determine_quota_cost
+export const QUOTA_COSTS: Record<YouTubeEndpoint, number> = {
+  search: 100,
+  videos: 1,
+  channels: 1,
+  playlistItems: 1
+};
+
+// 配额按天计算，在太平洋时间午夜重置
+const QUOTA_TIME_ZONE = 'America/Los_Angeles';
+
+// search.list / videos.list / channels.list / playlistItems.list 单次请求最多返回50条
+const MAX_ITEMS_PER_REQUEST = 50;
+
+// 一次搜索的请求构成，用于预估配额消耗
+export interface SearchCostPlan {
+  maxResults: number;
+  searchModes: number; // 每个搜索模式是一组独立的search.list请求
+  videoEnrichment: boolean; // 是否需要videos.list获取视频统计数据
+  channelEnrichment: boolean; // 是否需要channels.list获取频道统计数据
+  channelActivity: boolean; // 是否需要每个频道的上传列表（活跃度、相似创作者的共有词，playlistItems.list + videos.list）
+  channelsPerPage?: number; // 每页结果最多涉及的频道数，不设置时按每条结果来自不同频道计算
+}
+
+export interface QuotaEstimate {
+  units: number;
+  remaining: number;
+  activeKeys: number;
+  status: 'ok' | 'warning' | 'blocked';
+}
+
+export class QuotaService {
+  static getCost(endpoint: YouTubeEndpoint): number {
+    return QUOTA_COSTS[endpoint];
+  }
+
+  // 每次请求发出时按接口实际消耗记账
+  static charge(keyId: string, endpoint: YouTubeEndpoint): void {
+    const cost = this.getCost(endpoint);
+    SettingsService.updateKeyUsage(keyId, cost, this.getWindowStart().toISOString());
+    log.debug(`📊 API配额消耗: ${cost} unit${cost > 1 ? 's' : ''} (${endpoint}.list)`);
+  }
+
+  // 当前配额周期内已使用的配额（上一个周期的记录视为0）
+  static getUsedToday(key: YouTubeApiKey, now: Date = new Date()): number {
+    if (!key.quotaWindowStart) {
+      return 0;
+    }
+    return new Date(key.quotaWindowStart).getTime() >= this.getWindowStart(now).getTime()
+      ? key.quotaUsed
+      : 0;
+  }
+
+  static getRemaining(key: YouTubeApiKey, now: Date = new Date()): number {
+    return Math.max(0, key.quotaLimit - this.getUsedToday(key, now));
+  }
+
+  static estimateSearchCost(plan: SearchCostPlan): number {
+    const pages = Math.max(1, Math.ceil(plan.maxResults / MAX_ITEMS_PER_REQUEST));
+    // 活跃度按每页结果都来自不同频道估算（上限）
+    const channelsPerPage = plan.channelsPerPage ?? Math.min(plan.maxResults, MAX_ITEMS_PER_REQUEST);
+    const perPage =
+      QUOTA_COSTS.search +
+      (plan.videoEnrichment ? QUOTA_COSTS.videos : 0) +
+      (plan.channelEnrichment ? QUOTA_COSTS.channels : 0) +
+      (plan.channelActivity ? channelsPerPage * (QUOTA_COSTS.playlistItems + QUOTA_COSTS.videos) : 0);
+    return plan.searchModes * pages * perPage;
+  }
+
+  // 所有active key在当前周期内的剩余配额之和
+  static getPoolRemaining(now: Date = new Date()): { remaining: number; activeKeys: number } {
+    const activeKeys = SettingsService.getSettings().youtubeApiKeys.filter(key => key.status === 'active');
+    return {
+      remaining: activeKeys.reduce((sum, key) => sum + this.getRemaining(key, now), 0),
+      activeKeys: activeKeys.length
+    };
+  }
+
+  // 搜索会耗尽配额池时阻止；搜索后剩余不足再搜一次时提醒
+  static checkSearchBudget(plan: SearchCostPlan): QuotaEstimate {
+    const units = this.estimateSearchCost(plan);
+    const { remaining, activeKeys } = this.getPoolRemaining();
+
+    let status: QuotaEstimate['status'] = 'ok';
+    if (units > remaining) {
+      status = 'blocked';
+    } else if (units * 2 > remaining) {
+      status = 'warning';
+    }
+
+    return { units, remaining, activeKeys, status };
+  }
+
+  // 当前配额周期的开始时间（太平洋时间当天0点）
+  static getWindowStart(now: Date = new Date()): Date {
+    const offset = this.getPacificOffsetMs(now);
+    const wallClock = new Date(now.getTime() + offset);
+    const midnight = Date.UTC(wallClock.getUTCFullYear(), wallClock.getUTCMonth(), wallClock.getUTCDate());
+    // 夏令时切换日当天0点的偏移可能和当前时刻不同
+    return new Date(midnight - this.getPacificOffsetMs(new Date(midnight - offset)));
+  }
+
+  // 下一次配额重置时间
+  static getNextReset(now: Date = new Date()): Date {
+    const windowStart = this.getWindowStart(now);
+    // 加26小时一定落在下一个自然日内（夏令时切换日为23或25小时）
+    return this.getWindowStart(new Date(windowStart.getTime() + 26 * 60 * 60 * 1000));
+  }
+
+  // 太平洋时间相对UTC的偏移（毫秒，通常为负数）
+  private static getPacificOffsetMs(date: Date): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: QUOTA_TIME_ZONE,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }).formatToParts(date);
+    const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value || 0);
+    const wallClockAsUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+    return wallClockAsUtc - (date.getTime() - date.getMilliseconds());
+  }
+}
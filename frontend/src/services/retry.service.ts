@@ -0,0 +1,98 @@
+import { SettingsService, type RetryPolicy } from './settings.service';
+import type { YouTubeEndpoint, YouTubeErrorReason } from './youtube-api.service';
+import { createLogger } from './logger.service';
+
+const log = createLogger('youtube');
+
+// search.list 每次消耗100单位，重试次数更保守；videos/channels/playlistItems 只消耗1单位
+export const DEFAULT_RETRY_POLICIES: Record<YouTubeEndpoint, RetryPolicy> = {
+  search: { maxRetries: 2, baseDelayMs: 1000, maxDelayMs: 8000 },
+  videos: { maxRetries: 4, baseDelayMs: 500, maxDelayMs: 8000 },
+  channels: { maxRetries: 4, baseDelayMs: 500, maxDelayMs: 8000 },
+  playlistItems: { maxRetries: 4, baseDelayMs: 500, maxDelayMs: 8000 }
+};
+
+// 单次搜索（或加载更多）所有请求共享的重试次数上限，避免API持续异常时搜索无限拖长
+export const DEFAULT_RETRY_BUDGET = 10;
+
+export interface RetryBudgetState {
+  used: number;
+  limit: number;
+  lastRetry?: {
+    endpoint: YouTubeEndpoint;
+    reason: YouTubeErrorReason;
+    delayMs: number;
+  };
+}
+
+type RetryBudgetListener = (state: RetryBudgetState) => void;
+
+// 瞬时错误的退避重试：与key切换相互独立，按接口配置策略，按搜索分配重试预算
+export class RetryService {
+  private static budget: RetryBudgetState = { used: 0, limit: DEFAULT_RETRY_BUDGET };
+  private static listeners = new Set<RetryBudgetListener>();
+
+  static getPolicy(endpoint: YouTubeEndpoint): RetryPolicy {
+    return {
+      ...DEFAULT_RETRY_POLICIES[endpoint],
+      ...SettingsService.getSettings().retryPolicies?.[endpoint]
+    };
+  }
+
+  // 指数退避 + 完全抖动（full jitter）：在 [0, min(maxDelay, baseDelay * 2^retry)] 内随机等待
+  static getDelay(policy: RetryPolicy, retry: number): number {
+    const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+    return Math.round(Math.random() * ceiling);
+  }
+
+  // 每次新的搜索开始时重置
+  static resetBudget(limit: number = DEFAULT_RETRY_BUDGET): void {
+    this.budget = { used: 0, limit };
+    this.notify();
+  }
+
+  // 预算用尽时返回 false，调用方应直接抛出错误
+  static tryConsume(endpoint: YouTubeEndpoint, reason: YouTubeErrorReason, delayMs: number): boolean {
+    if (this.budget.used >= this.budget.limit) {
+      log.warn(`🔁 Retry budget exhausted (${this.budget.used}/${this.budget.limit}) - giving up on ${endpoint}`);
+      return false;
+    }
+    this.budget = { ...this.budget, used: this.budget.used + 1, lastRetry: { endpoint, reason, delayMs } };
+    this.notify();
+    return true;
+  }
+
+  static getBudget(): RetryBudgetState {
+    return this.budget;
+  }
+
+  static subscribe(listener: RetryBudgetListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // 可取消的等待：搜索取消时立即结束，不再发出重试请求
+  static wait(delayMs: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const onAbort = () => {
+        window.clearTimeout(timer);
+        reject(signal?.reason);
+      };
+      const timer = window.setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, delayMs);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private static notify(): void {
+    this.listeners.forEach(listener => listener(this.budget));
+  }
+}
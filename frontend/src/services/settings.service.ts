@@ -1,3 +1,8 @@
+import { CacheService } from './cache.service';
+import { EntityStoreService } from './entity-store.service';
+import { createLogger, LoggerService } from './logger.service';
+import type { YouTubeEndpoint } from './youtube-api.service';
+
 export interface YouTubeApiKey {
   id: string;
   name: string;
@@ -7,27 +12,52 @@ export interface YouTubeApiKey {
   quotaLimit: number;
   lastError?: string;
   lastUsed?: string;
+  quotaWindowStart?: string; // quotaUsed 所属配额周期的开始时间（太平洋时间0点）
+  lastProbedAt?: string; // 最近一次对error状态key做健康检查的时间
+  weight?: number; // 调度权重，默认为1；priority策略下权重越高越优先
+}
+
+// 每个请求选择API key的策略
+export type KeySchedulingPolicy = 'round-robin' | 'least-used' | 'priority';
+
+// YouTube请求的传输方式：真实API / 本地mock服务 / 回放fixture文件
+export type YouTubeTransportMode = 'live' | 'mock' | 'fixture';
+
+// 瞬时错误（429/5xx/网络错误）的指数退避重试策略
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number; // 第n次重试的等待上限为 baseDelayMs * 2^n（不超过maxDelayMs），实际等待随机抖动
+  maxDelayMs: number;
 }
 
 export interface AppSettings {
   youtubeApiKeys: YouTubeApiKey[];
   currentKeyIndex: number;
+  keySchedulingPolicy?: KeySchedulingPolicy;
+  transportMode?: YouTubeTransportMode;
+  mockServerUrl?: string;
+  enrichmentConcurrency?: number; // 频道数据补充请求的最大并发数
+  retryPolicies?: Partial<Record<YouTubeEndpoint, RetryPolicy>>;
 }
 
+export const DEFAULT_ENRICHMENT_CONCURRENCY = 4;
+export const MAX_ENRICHMENT_CONCURRENCY = 10;
+
+const log = createLogger('settings');
+
 export class SettingsService {
   private static readonly STORAGE_KEY = 'youtube_influencer_finder_settings';
 
   static getSettings(): AppSettings {
     try {
       const stored = localStorage.getItem(this.STORAGE_KEY);
-      console.log(`🔍 Loading settings from localStorage:`, stored ? 'Found' : 'Not found');
       
       if (stored) {
         const parsed = JSON.parse(stored);
         
         // 迁移旧格式数据
         if (parsed.youtubeApiKey && !parsed.youtubeApiKeys) {
-          console.log(`🔄 Migrating legacy settings format`);
+          log.info(`🔄 Migrating legacy settings format`);
           const migratedSettings: AppSettings = {
             youtubeApiKeys: [{
               id: 'legacy-key',
@@ -45,16 +75,12 @@ export class SettingsService {
         
         // 验证新格式数据
         if (parsed.youtubeApiKeys && Array.isArray(parsed.youtubeApiKeys)) {
-          console.log(`✅ Parsed settings:`, {
-            keyCount: parsed.youtubeApiKeys.length,
-            currentIndex: parsed.currentKeyIndex,
-            activeKey: parsed.youtubeApiKeys[parsed.currentKeyIndex]?.name || 'None'
-          });
+          this.registerKeySecrets(parsed);
           return parsed;
         }
       }
     } catch (error) {
-      console.error('Failed to load settings:', error);
+      log.error('Failed to load settings:', error);
     }
 
     // 创建默认设置
@@ -71,34 +97,23 @@ export class SettingsService {
       currentKeyIndex: 0
     };
     
-    console.log(`🏗️ Using default settings:`, {
-      keyCount: defaultSettings.youtubeApiKeys.length,
-      hasDefaultKey: !!defaultKey
-    });
-    
+    this.registerKeySecrets(defaultSettings);
     return defaultSettings;
   }
 
   static saveSettings(settings: AppSettings): void {
     try {
-      console.log(`💾 Saving settings to localStorage:`, {
-        keyCount: settings.youtubeApiKeys.length,
-        currentIndex: settings.currentKeyIndex,
-        activeKey: settings.youtubeApiKeys[settings.currentKeyIndex]?.name || 'None'
-      });
-      
+      this.registerKeySecrets(settings);
       const previousSettings = this.getSettings();
       const settingsJson = JSON.stringify(settings);
       
       localStorage.setItem(this.STORAGE_KEY, settingsJson);
-      console.log(`✅ Settings saved to localStorage, size: ${settingsJson.length} chars`);
+      log.debug(`💾 Settings saved (${settings.youtubeApiKeys.length} keys, ${settingsJson.length} chars)`);
       
       // 验证保存是否成功
       const savedCheck = localStorage.getItem(this.STORAGE_KEY);
-      if (savedCheck === settingsJson) {
-        console.log(`🔍 Verification: Settings saved successfully`);
-      } else {
-        console.error(`❌ Verification failed: Settings not saved correctly`);
+      if (savedCheck !== settingsJson) {
+        log.error(`❌ Verification failed: Settings not saved correctly`);
       }
       
       // 如果API keys发生变化，清理相关缓存
@@ -107,13 +122,18 @@ export class SettingsService {
       
       if (JSON.stringify(previousKeys) !== JSON.stringify(currentKeys)) {
         this.clearRelatedCache();
-        console.log('🗑️ API keys changed - cleared all related cache');
+        log.info('🗑️ API keys changed - cleared all related cache');
       }
     } catch (error) {
-      console.error('Failed to save settings:', error);
+      log.error('Failed to save settings:', error);
     }
   }
 
+  // 日志中出现这些key时一律替换为 [REDACTED]
+  private static registerKeySecrets(settings: AppSettings): void {
+    LoggerService.registerSecrets(settings.youtubeApiKeys.map(k => k.key));
+  }
+
   // YouTube API Key管理方法
   static getCurrentYouTubeApiKey(): string | null {
     const settings = this.getSettings();
@@ -134,7 +154,7 @@ export class SettingsService {
     
     settings.youtubeApiKeys.push(newKey);
     this.saveSettings(settings);
-    console.log(`📝 Added new YouTube API key: ${name}`);
+    log.info(`📝 Added new YouTube API key: ${name}`);
   }
 
   static removeYouTubeApiKey(keyId: string): void {
@@ -154,7 +174,7 @@ export class SettingsService {
       }
       
       this.saveSettings(settings);
-      console.log(`🗑️ Removed YouTube API key: ${removedKey.name}`);
+      log.info(`🗑️ Removed YouTube API key: ${removedKey.name}`);
     }
   }
 
@@ -163,7 +183,7 @@ export class SettingsService {
     const activeKeys = settings.youtubeApiKeys.filter(k => k.status === 'active');
     
     if (activeKeys.length <= 1) {
-      console.warn('🚫 No alternative active keys available');
+      log.warn('🚫 No alternative active keys available');
       return false;
     }
 
@@ -176,17 +196,79 @@ export class SettingsService {
       if (nextKey && nextKey.status === 'active') {
         settings.currentKeyIndex = nextIndex;
         this.saveSettings(settings);
-        console.log(`🔄 Switched to API key: ${nextKey.name}`);
+        log.info(`🔄 Switched to API key: ${nextKey.name}`);
         return true;
       }
       nextIndex = (nextIndex + 1) % settings.youtubeApiKeys.length;
       attempts++;
     }
     
-    console.error('🚫 No active API keys available');
+    log.error('🚫 No active API keys available');
     return false;
   }
 
+  static setCurrentKey(keyId: string): void {
+    const settings = this.getSettings();
+    const keyIndex = settings.youtubeApiKeys.findIndex(k => k.id === keyId);
+    
+    if (keyIndex >= 0 && keyIndex !== settings.currentKeyIndex) {
+      settings.currentKeyIndex = keyIndex;
+      this.saveSettings(settings);
+    }
+  }
+
+  static setKeySchedulingPolicy(policy: KeySchedulingPolicy): void {
+    const settings = this.getSettings();
+    settings.keySchedulingPolicy = policy;
+    this.saveSettings(settings);
+    log.info(`⚖️ Key scheduling policy set to: ${policy}`);
+  }
+
+  static setTransportMode(mode: YouTubeTransportMode, mockServerUrl?: string): void {
+    const settings = this.getSettings();
+    settings.transportMode = mode;
+    if (mockServerUrl !== undefined) {
+      settings.mockServerUrl = mockServerUrl.trim() || undefined;
+    }
+    this.saveSettings(settings);
+    log.info(`🔌 YouTube transport set to: ${mode}`);
+  }
+
+  static getEnrichmentConcurrency(): number {
+    return this.getSettings().enrichmentConcurrency || DEFAULT_ENRICHMENT_CONCURRENCY;
+  }
+
+  static setEnrichmentConcurrency(concurrency: number): void {
+    const settings = this.getSettings();
+    settings.enrichmentConcurrency = Math.min(MAX_ENRICHMENT_CONCURRENCY, Math.max(1, Math.round(concurrency)));
+    this.saveSettings(settings);
+    log.info(`🚦 Enrichment concurrency set to: ${settings.enrichmentConcurrency}`);
+  }
+
+  static setRetryPolicy(endpoint: YouTubeEndpoint, policy: RetryPolicy): void {
+    const settings = this.getSettings();
+    settings.retryPolicies = {
+      ...settings.retryPolicies,
+      [endpoint]: {
+        maxRetries: Math.max(0, Math.round(policy.maxRetries)),
+        baseDelayMs: Math.max(0, Math.round(policy.baseDelayMs)),
+        maxDelayMs: Math.max(0, Math.round(policy.maxDelayMs))
+      }
+    };
+    this.saveSettings(settings);
+    log.info(`🔁 Retry policy for ${endpoint} set to:`, settings.retryPolicies[endpoint]);
+  }
+
+  static setKeyWeight(keyId: string, weight: number): void {
+    const settings = this.getSettings();
+    const key = settings.youtubeApiKeys.find(k => k.id === keyId);
+    
+    if (key) {
+      key.weight = Math.max(1, Math.round(weight));
+      this.saveSettings(settings);
+    }
+  }
+
   static markKeyAsExhausted(keyId: string, error?: string): void {
     const settings = this.getSettings();
     const key = settings.youtubeApiKeys.find(k => k.id === keyId);
@@ -196,22 +278,88 @@ export class SettingsService {
       key.lastError = error;
       key.lastUsed = new Date().toISOString();
       this.saveSettings(settings);
-      console.log(`🚫 Marked API key as exhausted: ${key.name}`);
+      log.warn(`🚫 Marked API key as exhausted: ${key.name}`);
     }
   }
 
-  static updateKeyUsage(keyId: string, quotaUsed: number): void {
+  static markKeyAsError(keyId: string, error?: string): void {
     const settings = this.getSettings();
     const key = settings.youtubeApiKeys.find(k => k.id === keyId);
     
     if (key) {
-      key.quotaUsed = quotaUsed;
+      key.status = 'error';
+      key.lastError = error;
+      key.lastUsed = new Date().toISOString();
+      this.saveSettings(settings);
+      log.warn(`🔑 Marked API key as error: ${key.name}`);
+    }
+  }
+
+  static reactivateKey(keyId: string): void {
+    const settings = this.getSettings();
+    const key = settings.youtubeApiKeys.find(k => k.id === keyId);
+    
+    if (key && key.status !== 'active') {
+      key.status = 'active';
+      key.lastError = undefined;
+      this.saveSettings(settings);
+      log.info(`✅ Reactivated API key: ${key.name}`);
+    }
+  }
+
+  // 上一个配额周期内用尽的key在新周期开始后恢复为active
+  static recoverExhaustedKeys(windowStart: string): YouTubeApiKey[] {
+    const settings = this.getSettings();
+    const windowStartTime = new Date(windowStart).getTime();
+    const recovered = settings.youtubeApiKeys.filter(key =>
+      key.status === 'exhausted' &&
+      (!key.lastUsed || new Date(key.lastUsed).getTime() < windowStartTime)
+    );
+
+    if (recovered.length > 0) {
+      recovered.forEach(key => {
+        key.status = 'active';
+        key.lastError = undefined;
+        key.quotaUsed = 0;
+        key.quotaWindowStart = windowStart;
+        log.info(`🔄 Quota reset - recovered API key: ${key.name}`);
+      });
+      this.saveSettings(settings);
+    }
+    
+    return recovered;
+  }
+
+  static recordKeyProbe(keyId: string, error?: string): void {
+    const settings = this.getSettings();
+    const key = settings.youtubeApiKeys.find(k => k.id === keyId);
+    
+    if (key) {
+      key.lastProbedAt = new Date().toISOString();
+      if (error) {
+        key.lastError = error;
+      }
+      this.saveSettings(settings);
+    }
+  }
+
+  // 累加配额使用量；进入新的配额周期时先清零
+  static updateKeyUsage(keyId: string, units: number, windowStart: string): void {
+    const settings = this.getSettings();
+    const key = settings.youtubeApiKeys.find(k => k.id === keyId);
+    
+    if (key) {
+      if (key.quotaWindowStart !== windowStart) {
+        key.quotaUsed = 0;
+        key.quotaWindowStart = windowStart;
+      }
+      key.quotaUsed += units;
       key.lastUsed = new Date().toISOString();
       
       // 如果接近配额限制，标记为exhausted
-      if (quotaUsed >= key.quotaLimit * 0.95) {
+      if (key.quotaUsed >= key.quotaLimit * 0.95 && key.status === 'active') {
         key.status = 'exhausted';
-        console.log(`⚠️ API key approaching quota limit: ${key.name}`);
+        log.warn(`⚠️ API key approaching quota limit: ${key.name}`);
       }
       
       this.saveSettings(settings);
@@ -227,36 +375,17 @@ export class SettingsService {
     try {
       localStorage.removeItem(this.STORAGE_KEY);
     } catch (error) {
-      console.error('Failed to clear settings:', error);
+      log.error('Failed to clear settings:', error);
     }
   }
 
-  // 清理与API key相关的所有缓存数据
+  // 清理与API key相关的所有缓存数据（IndexedDB中的搜索/关键词结果 + 遗留的localStorage缓存）
+  // 视频/频道实体与key无关，保留复用
   static clearRelatedCache(): void {
-    try {
-      const keys = Object.keys(localStorage);
-      console.log(`🔍 All localStorage keys:`, keys);
-      
-      const cacheKeys = keys.filter(key => 
-        key !== this.STORAGE_KEY && ( // 保留设置，清理其他所有缓存
-          key.startsWith('search_') || 
-          key.startsWith('keywords_') ||
-          key.startsWith('openai_') ||
-          key.startsWith('youtube_')
-        )
-      );
-      
-      console.log(`🎯 Cache keys to clear:`, cacheKeys);
-      
-      cacheKeys.forEach(key => {
-        localStorage.removeItem(key);
-        console.log(`Cleared cache: ${key}`);
-      });
-      
-      console.log(`🧹 Cleared ${cacheKeys.length} cache entries related to API keys`);
-    } catch (error) {
-      console.error('Failed to clear related cache:', error);
-    }
+    CacheService.clearLegacyStorage();
+    CacheService.clear(['search', 'keywords'])
+      .then(cleared => log.info(`🧹 Cleared ${cleared} cache entries related to API keys`))
+      .catch(error => log.error('Failed to clear related cache:', error));
   }
 
   // 强制清理所有缓存（调试用）
@@ -265,16 +394,17 @@ export class SettingsService {
       const keys = Object.keys(localStorage);
       const nonSettingsKeys = keys.filter(key => key !== this.STORAGE_KEY);
       
-      console.log(`🔥 Force clearing ALL cache except settings:`, nonSettingsKeys);
-      
       nonSettingsKeys.forEach(key => {
         localStorage.removeItem(key);
-        console.log(`Force cleared: ${key}`);
+        log.debug(`Force cleared: ${key}`);
       });
       
-      console.log(`🧹 Force cleared ${nonSettingsKeys.length} cache entries`);
+      log.info(`🧹 Force cleared ${nonSettingsKeys.length} cache entries`);
+      void CacheService.clear();
+      // 内存中的视频/频道实体也要清空，否则在刷新页面前仍会返回旧数据
+      EntityStoreService.clear();
     } catch (error) {
-      console.error('Failed to force clear cache:', error);
+      log.error('Failed to force clear cache:', error);
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,501 @@
+import { SettingsService, type YouTubeApiKey } from './settings.service';
+import { QuotaService } from './quota.service';
+import { KeySchedulerService } from './key-scheduler.service';
+import { YouTubeTransportService, type TransportParams } from './youtube-transport.service';
+import { RetryService } from './retry.service';
+import { createLogger } from './logger.service';
+import type { AppError, AppErrorKind } from '../types';
+
+const log = createLogger('youtube');
+
+export type YouTubeEndpoint = 'search' | 'videos' | 'channels' | 'playlistItems';
+
+export type YouTubeErrorReason =
+  | 'quotaExceeded'
+  | 'keyInvalid'
+  | 'accessNotConfigured'
+  | 'forbidden'
+  | 'badRequest'
+  | 'rateLimited'
+  | 'serverError'
+  | 'network'
+  | 'noActiveKey'
+  | 'unknown';
+
+// 可以原样重试的瞬时错误，与需要切换key的错误分开处理
+const TRANSIENT_REASONS: YouTubeErrorReason[] = ['rateLimited', 'serverError', 'network'];
+
+const REASON_KINDS: Record<YouTubeErrorReason, Exclude<AppErrorKind, 'PartialFailure'>> = {
+  quotaExceeded: 'QuotaExceeded',
+  noActiveKey: 'QuotaExceeded',
+  keyInvalid: 'KeyInvalid',
+  forbidden: 'KeyInvalid',
+  accessNotConfigured: 'ApiNotEnabled',
+  rateLimited: 'RateLimited',
+  serverError: 'Network',
+  network: 'Network',
+  badRequest: 'BadRequest',
+  unknown: 'Unknown'
+};
+
+export interface YouTubeThumbnails {
+  default?: { url: string };
+  medium?: { url: string };
+  high?: { url: string };
+}
+
+export interface YouTubeApiResponse<T> {
+  items?: T[];
+  nextPageToken?: string;
+  pageInfo?: {
+    totalResults: number;
+    resultsPerPage: number;
+  };
+}
+
+export interface YouTubeSearchItem {
+  id: {
+    kind: string;
+    videoId?: string;
+    channelId?: string;
+  };
+  snippet?: {
+    channelId: string;
+    channelTitle: string;
+    title: string;
+    description: string;
+    publishedAt: string;
+    thumbnails?: YouTubeThumbnails;
+  };
+}
+
+export interface YouTubeVideoItem {
+  id: string;
+  snippet?: {
+    channelId: string;
+    channelTitle: string;
+    title: string;
+    description: string;
+    publishedAt: string;
+    thumbnails?: YouTubeThumbnails;
+    tags?: string[];
+  };
+  statistics?: {
+    viewCount?: string;
+    likeCount?: string;
+    commentCount?: string;
+  };
+  contentDetails?: {
+    duration?: string;
+  };
+}
+
+export interface YouTubeChannelItem {
+  id: string;
+  snippet?: {
+    title: string;
+    description: string;
+    customUrl?: string;
+    publishedAt?: string;
+    thumbnails?: YouTubeThumbnails;
+    country?: string;
+  };
+  statistics?: {
+    viewCount?: string;
+    subscriberCount?: string;
+    videoCount?: string;
+    hiddenSubscriberCount?: boolean;
+  };
+  contentDetails?: {
+    relatedPlaylists?: {
+      uploads?: string; // 频道全部上传视频的播放列表
+    };
+  };
+}
+
+export interface YouTubePlaylistItem {
+  id: string;
+  snippet?: {
+    channelId: string;
+    title: string;
+    publishedAt: string;
+    position?: number;
+    resourceId?: {
+      kind: string;
+      videoId?: string;
+    };
+  };
+  contentDetails?: {
+    videoId?: string;
+    videoPublishedAt?: string;
+  };
+}
+
+export interface SearchListParams {
+  part?: string;
+  q?: string;
+  channelId?: string;
+  type?: 'video' | 'channel';
+  regionCode?: string;
+  maxResults?: number;
+  order?: 'relevance' | 'date' | 'viewCount' | 'rating';
+  publishedAfter?: string;
+  publishedBefore?: string;
+  videoDuration?: 'any' | 'short' | 'medium' | 'long';
+  pageToken?: string;
+}
+
+export interface VideosListParams {
+  part?: string;
+  id: string[];
+}
+
+// id / forHandle / forUsername 三选一
+export interface ChannelsListParams {
+  part?: string;
+  id?: string[];
+  forHandle?: string; // 带或不带 @ 的handle
+  forUsername?: string; // 旧版 /user/ 用户名
+}
+
+export interface PlaylistItemsListParams {
+  part?: string;
+  playlistId: string;
+  maxResults?: number;
+  pageToken?: string;
+}
+
+type QueryParams = Record<string, string | number | undefined>;
+
+// 累计经由某个客户端发出的请求消耗的配额（包括失败和重试的请求）
+export interface QuotaMeter {
+  units: number;
+}
+
+interface ApiKeyInfo {
+  key: string;
+  keyId: string;
+}
+
+// 请求被 AbortController 取消时 fetch 抛出的错误
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// YouTube Data API 错误，已按 reason 分类，供重试/切换key逻辑和UI使用
+export class YouTubeApiError extends Error {
+  public status: number;
+  public reason: YouTubeErrorReason;
+  public endpoint?: YouTubeEndpoint;
+  public userMessage: string;
+  public details?: unknown;
+
+  constructor(
+    status: number,
+    reason: YouTubeErrorReason,
+    message: string,
+    userMessage: string,
+    endpoint?: YouTubeEndpoint,
+    details?: unknown
+  ) {
+    super(userMessage || message);
+    this.name = 'YouTubeApiError';
+    this.status = status;
+    this.reason = reason;
+    this.endpoint = endpoint;
+    this.userMessage = userMessage;
+    this.details = details;
+  }
+
+  get kind(): Exclude<AppErrorKind, 'PartialFailure'> {
+    return REASON_KINDS[this.reason];
+  }
+
+  toAppError(): AppError {
+    return {
+      kind: this.kind,
+      message: this.userMessage || this.message,
+      status: this.status || undefined,
+      details: this.details
+    };
+  }
+}
+
+// 统一的YouTube Data API请求管道：key注入、错误分类、key切换重试和诊断日志
+export class YouTubeApiService {
+  private static readonly MAX_ATTEMPTS = 3;
+
+  private readonly pinnedKey?: YouTubeApiKey;
+  private readonly meter?: QuotaMeter;
+
+  // 指定key时只使用该key（用于测试单个key），不做自动切换
+  constructor(pinnedKey?: YouTubeApiKey, meter?: QuotaMeter) {
+    this.pinnedKey = pinnedKey;
+    this.meter = meter;
+  }
+
+  // 返回把配额消耗同时计入 meter 的客户端，用于按搜索阶段统计
+  withMeter(meter: QuotaMeter): YouTubeApiService {
+    return new YouTubeApiService(this.pinnedKey, meter);
+  }
+
+  search(params: SearchListParams, signal?: AbortSignal): Promise<YouTubeApiResponse<YouTubeSearchItem>> {
+    return this.request<YouTubeSearchItem>('search', {
+      part: 'snippet',
+      ...params
+    }, signal);
+  }
+
+  videos(params: VideosListParams, signal?: AbortSignal): Promise<YouTubeApiResponse<YouTubeVideoItem>> {
+    return this.request<YouTubeVideoItem>('videos', {
+      part: params.part || 'snippet,statistics,contentDetails',
+      id: params.id.join(',')
+    }, signal);
+  }
+
+  channels(params: ChannelsListParams, signal?: AbortSignal): Promise<YouTubeApiResponse<YouTubeChannelItem>> {
+    return this.request<YouTubeChannelItem>('channels', {
+      part: params.part || 'snippet,statistics',
+      id: params.id?.join(','),
+      forHandle: params.forHandle,
+      forUsername: params.forUsername
+    }, signal);
+  }
+
+  playlistItems(params: PlaylistItemsListParams, signal?: AbortSignal): Promise<YouTubeApiResponse<YouTubePlaylistItem>> {
+    return this.request<YouTubePlaylistItem>('playlistItems', {
+      part: 'contentDetails',
+      ...params
+    }, signal);
+  }
+
+  getCurrentKey(): ApiKeyInfo | null {
+    if (this.pinnedKey) {
+      return { key: this.pinnedKey.key, keyId: this.pinnedKey.id };
+    }
+
+    const settings = SettingsService.getSettings();
+    const currentKey = settings.youtubeApiKeys[settings.currentKeyIndex];
+
+    if (!currentKey || currentKey.status !== 'active') {
+      log.error('🚫 No active API key available');
+      return null;
+    }
+
+    // 只记录key名称，不输出key的任何部分
+    log.debug(`🔑 Using API key: ${currentKey.name}`);
+    return { key: currentKey.key, keyId: currentKey.id };
+  }
+
+  // 为单个请求选择key：固定key直接使用，否则交给调度器按策略选择
+  private selectKey(endpoint: YouTubeEndpoint): ApiKeyInfo | null {
+    if (this.pinnedKey) {
+      return { key: this.pinnedKey.key, keyId: this.pinnedKey.id };
+    }
+
+    const apiKey = KeySchedulerService.pickKey(endpoint);
+    if (!apiKey) {
+      log.error('🚫 No active API key with enough quota available');
+      return null;
+    }
+
+    log.debug(`🔑 Using API key: ${apiKey.name}`);
+    return { key: apiKey.key, keyId: apiKey.id };
+  }
+
+  private async request<T>(endpoint: YouTubeEndpoint, params: QueryParams, signal?: AbortSignal): Promise<YouTubeApiResponse<T>> {
+    let attempt = 0; // key切换次数
+    let retries = 0; // 瞬时错误的退避重试次数
+
+    while (true) {
+      // 已取消的搜索不再发出新请求（已发出的请求配额照常记录）
+      signal?.throwIfAborted();
+
+      const apiKeyInfo = this.selectKey(endpoint);
+      if (!apiKeyInfo) {
+        throw new YouTubeApiError(
+          0,
+          'noActiveKey',
+          'No active YouTube API key available',
+          '🔑 没有可用的YouTube API密钥，请在设置中添加或等待配额重置。',
+          endpoint
+        );
+      }
+
+      try {
+        const result = await this.send<T>(endpoint, params, apiKeyInfo, signal);
+        KeySchedulerService.recordOutcome(apiKeyInfo.keyId, true);
+        return result;
+      } catch (error) {
+        // 取消不是key的问题，不计入错误率也不重试
+        if (isAbortError(error)) {
+          log.debug(`⏹️ YouTube ${endpoint} request cancelled`);
+          throw error;
+        }
+
+        // 瞬时错误：同一请求退避后重试，不计入key的错误率
+        if (error instanceof YouTubeApiError && YouTubeApiService.isTransient(error)) {
+          const policy = RetryService.getPolicy(endpoint);
+          const delay = RetryService.getDelay(policy, retries);
+          if (retries < policy.maxRetries && RetryService.tryConsume(endpoint, error.reason, delay)) {
+            retries++;
+            log.warn(`⏳ YouTube ${endpoint} ${error.reason} (${error.status}) - retrying in ${delay}ms (retry ${retries}/${policy.maxRetries})`);
+            await RetryService.wait(delay, signal);
+            continue;
+          }
+          log.error(`🚫 YouTube ${endpoint} request failed after ${retries} retries:`, error);
+          throw error;
+        }
+
+        KeySchedulerService.recordOutcome(apiKeyInfo.keyId, false);
+        attempt++;
+        log.error(`🚫 YouTube ${endpoint} request failed (attempt ${attempt}/${YouTubeApiService.MAX_ATTEMPTS}):`, error);
+
+        if (
+          error instanceof YouTubeApiError &&
+          attempt < YouTubeApiService.MAX_ATTEMPTS &&
+          this.handleKeyFailure(error, apiKeyInfo.keyId, endpoint)
+        ) {
+          log.info(`🔄 Retrying ${endpoint} with new API key...`);
+          continue;
+        }
+
+        throw error;
+      }
+    }
+  }
+
+  private async send<T>(
+    endpoint: YouTubeEndpoint,
+    params: QueryParams,
+    apiKeyInfo: ApiKeyInfo,
+    signal?: AbortSignal
+  ): Promise<YouTubeApiResponse<T>> {
+    const query: TransportParams = {};
+    Object.entries(params).forEach(([name, value]) => {
+      if (value !== undefined && value !== '') {
+        query[name] = String(value);
+      }
+    });
+
+    // 请求一旦发出即产生配额消耗（包括失败的请求）
+    QuotaService.charge(apiKeyInfo.keyId, endpoint);
+    if (this.meter) {
+      this.meter.units += QuotaService.getCost(endpoint);
+    }
+
+    let response;
+    try {
+      response = await YouTubeTransportService.getTransport().send(endpoint, query, apiKeyInfo.key, signal);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      // fetch 只在网络层失败（断网、DNS、CORS等）时抛错
+      throw new YouTubeApiError(0, 'network', error instanceof Error ? error.message : 'Network request failed',
+        '🌐 无法连接到YouTube API，请检查网络连接后重试。', endpoint, error);
+    }
+    YouTubeTransportService.record(endpoint, query, response);
+
+    if (response.status < 200 || response.status >= 300) {
+      const error = YouTubeApiService.classifyError(response.status, response.body, endpoint);
+      this.logDiagnostics(error);
+      throw error;
+    }
+
+    return response.body as YouTubeApiResponse<T>;
+  }
+
+  // 根据错误响应体的 reason 字段分类（兼容只在 message 中携带 reason 的情况）
+  static classifyError(status: number, errorData: unknown, endpoint?: YouTubeEndpoint): YouTubeApiError {
+    const error = (errorData as { error?: { message?: string; errors?: Array<{ reason?: string }> } })?.error;
+    const apiMessage = error?.message || `YouTube API Error ${status}`;
+    const reasons = (error?.errors || []).map(item => item.reason || '');
+    const matches = (reason: string) => reasons.includes(reason) || apiMessage.includes(reason);
+
+    if (matches('quotaExceeded') || matches('dailyLimitExceeded')) {
+      return new YouTubeApiError(status, 'quotaExceeded', 'YouTube API quota exceeded',
+        '🚫 YouTube API 配额已用完，请稍后重试或检查API密钥限制。', endpoint, errorData);
+    }
+    if (status === 429 || matches('rateLimitExceeded') || matches('userRateLimitExceeded')) {
+      return new YouTubeApiError(status, 'rateLimited', 'YouTube API rate limit exceeded',
+        '⏳ YouTube API请求过于频繁，请稍后重试。', endpoint, errorData);
+    }
+    if (matches('keyInvalid') || apiMessage.includes('API key not valid')) {
+      return new YouTubeApiError(status, 'keyInvalid', 'Invalid YouTube API key',
+        '🔑 YouTube API密钥无效，请检查设置中的API密钥是否正确。', endpoint, errorData);
+    }
+    if (matches('accessNotConfigured')) {
+      return new YouTubeApiError(status, 'accessNotConfigured', 'YouTube Data API v3 not enabled',
+        '🔧 YouTube Data API v3 未启用，请在Google Cloud Console中启用该API。', endpoint, errorData);
+    }
+    if (status === 403) {
+      return new YouTubeApiError(status, 'forbidden', 'YouTube API access forbidden',
+        '🚫 YouTube API访问被拒绝，请检查API密钥权限设置。', endpoint, errorData);
+    }
+    if (status === 400) {
+      return new YouTubeApiError(status, 'badRequest', 'Invalid request parameters',
+        '❌ 请求参数无效，请尝试不同的关键词或筛选条件。', endpoint, errorData);
+    }
+    if (status >= 500 || matches('backendError')) {
+      return new YouTubeApiError(status, 'serverError', apiMessage,
+        `🌐 YouTube服务暂时不可用 (${status})，请稍后重试。`, endpoint, errorData);
+    }
+    return new YouTubeApiError(status, 'unknown', apiMessage,
+      `🌐 YouTube API请求失败 (${status})，请稍后重试。`, endpoint, errorData);
+  }
+
+  static isTransient(error: YouTubeApiError): boolean {
+    return TRANSIENT_REASONS.includes(error.reason);
+  }
+
+  // 返回 true 表示已切换到其他key，可以重试
+  private handleKeyFailure(error: YouTubeApiError, keyId: string, endpoint: YouTubeEndpoint): boolean {
+    if (this.pinnedKey) {
+      return false;
+    }
+
+    if (error.reason === 'quotaExceeded') {
+      log.warn(`🚫 Quota exhausted for key: ${keyId}`);
+      SettingsService.markKeyAsExhausted(keyId, error.message);
+    } else if (error.reason === 'keyInvalid' || error.reason === 'accessNotConfigured') {
+      log.warn(`🔑 Key unusable (${error.reason}): ${keyId}`);
+      SettingsService.markKeyAsError(keyId, error.message);
+    } else {
+      // 其他类型的错误不切换key
+      return false;
+    }
+
+    // 调度器会自动跳过不可用的key
+    if (KeySchedulerService.hasAvailableKey(endpoint)) {
+      log.info(`🔄 Switching to next available API key`);
+      return true;
+    }
+
+    log.error(`🚫 No more active API keys available`);
+    if (error.reason === 'quotaExceeded') {
+      throw new YouTubeApiError(
+        error.status,
+        'quotaExceeded',
+        'All YouTube API keys have been exhausted',
+        '🚫 所有YouTube API密钥的配额都已用完，请添加更多密钥或等待配额重置。',
+        error.endpoint,
+        error.details
+      );
+    }
+    return false;
+  }
+
+  private logDiagnostics(error: YouTubeApiError): void {
+    log.error(`📱 YouTube ${error.endpoint} API Error Details:`, error.details);
+
+    // 详细的403错误诊断
+    if (error.status === 403) {
+      log.error([
+        '🚨 YouTube API 403错误详细诊断 - 检查清单:',
+        '1. API密钥是否有效？ https://console.cloud.google.com/apis/credentials',
+        '2. YouTube Data API v3是否已启用？ https://console.cloud.google.com/apis/library/youtube.googleapis.com',
+        '3. API密钥是否有YouTube API权限？',
+        '4. 是否设置了正确的HTTP引用来源？',
+        '5. API配额是否已用完？ https://console.cloud.google.com/apis/api/youtube.googleapis.com/quotas'
+      ].join('\n'));
+    }
+  }
+}
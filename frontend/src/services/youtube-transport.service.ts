@@ -0,0 +1,177 @@
+import { SettingsService, type YouTubeTransportMode } from './settings.service';
+import type { YouTubeEndpoint } from './youtube-api.service';
+import { createLogger } from './logger.service';
+
+const log = createLogger('youtube');
+
+export const YOUTUBE_API_BASE = 'https://www.googleapis.com/youtube/v3';
+export const DEFAULT_MOCK_SERVER_URL = 'http://localhost:8787/youtube/v3';
+
+// fixture文件放在 frontend/fixtures/youtube/ 下，每个接口一个文件：search.json / videos.json / channels.json / playlistItems.json
+// 按需加载，不影响主包体积
+const FIXTURE_FILES = import.meta.glob<FixtureFile>('../../fixtures/youtube/*.json', { import: 'default' });
+
+export type TransportParams = Record<string, string>;
+
+export interface TransportResponse {
+  status: number;
+  body: unknown;
+}
+
+// YouTubeApiService 下层的请求传输：真实API、本地mock服务或fixture回放
+export interface YouTubeTransport {
+  readonly name: string;
+  send(endpoint: YouTubeEndpoint, params: TransportParams, key: string, signal?: AbortSignal): Promise<TransportResponse>;
+}
+
+// 录制/回放的单条响应，params 不包含 key
+export interface FixtureEntry {
+  params: TransportParams;
+  status: number;
+  body: unknown;
+}
+
+export interface FixtureFile {
+  responses: FixtureEntry[];
+}
+
+// 通过HTTP请求Data API（或与其接口一致的本地mock服务）
+export class HttpTransport implements YouTubeTransport {
+  readonly name: string;
+  private readonly baseUrl: string;
+
+  constructor(baseUrl: string, name: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.name = name;
+  }
+
+  async send(endpoint: YouTubeEndpoint, params: TransportParams, key: string, signal?: AbortSignal): Promise<TransportResponse> {
+    const url = new URL(`${this.baseUrl}/${endpoint}`);
+    Object.entries(params).forEach(([name, value]) => url.searchParams.set(name, value));
+    url.searchParams.set('key', key);
+
+    log.debug(`📡 API URL: ${url.toString().replace(key, 'API_KEY_HIDDEN')}`);
+
+    const response = await fetch(url.toString(), {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+      },
+      mode: 'cors',
+      signal
+    });
+
+    const body = await response.json().catch(() => ({}));
+    return { status: response.status, body };
+  }
+}
+
+// 回放录制的响应，不发出任何网络请求
+export class FixtureTransport implements YouTubeTransport {
+  readonly name = 'fixture';
+  private files = new Map<YouTubeEndpoint, Promise<FixtureFile>>();
+
+  async send(endpoint: YouTubeEndpoint, params: TransportParams, _key: string, signal?: AbortSignal): Promise<TransportResponse> {
+    const { responses } = await this.load(endpoint);
+    signal?.throwIfAborted();
+    log.debug(`📼 Replaying ${endpoint}.list fixture:`, params);
+
+    // videos.list / channels.list 按id从所有录制的响应中取条目，可以回放任意id组合
+    if (params.id) {
+      const ids = params.id.split(',');
+      const itemsById = new Map<string, unknown>();
+      responses
+        .filter(entry => entry.status === 200)
+        .forEach(entry => {
+          const items = (entry.body as { items?: Array<{ id: string }> }).items || [];
+          items.forEach(item => itemsById.set(item.id, item));
+        });
+
+      const items = ids.map(id => itemsById.get(id)).filter(Boolean);
+      if (items.length > 0) {
+        return {
+          status: 200,
+          body: { items, pageInfo: { totalResults: items.length, resultsPerPage: items.length } }
+        };
+      }
+    }
+
+    const entry = FixtureTransport.findEntry(responses, params);
+    if (entry) {
+      return { status: entry.status, body: entry.body };
+    }
+
+    log.warn(`📼 No ${endpoint}.list fixture matches - returning empty result`);
+    return { status: 200, body: { items: [], pageInfo: { totalResults: 0, resultsPerPage: 0 } } };
+  }
+
+  // 录制参数全部与请求一致的条目中取参数最多（最具体）的一条；params为空的条目作为默认响应
+  private static findEntry(responses: FixtureEntry[], params: TransportParams): FixtureEntry | undefined {
+    return responses
+      .filter(entry => Object.entries(entry.params).every(([name, value]) => params[name] === value))
+      .sort((a, b) => Object.keys(b.params).length - Object.keys(a.params).length)[0];
+  }
+
+  private load(endpoint: YouTubeEndpoint): Promise<FixtureFile> {
+    let file = this.files.get(endpoint);
+    if (!file) {
+      const loader = FIXTURE_FILES[`../../fixtures/youtube/${endpoint}.json`];
+      file = (loader ? loader() : Promise.resolve({ responses: [] }))
+        .catch(error => {
+          log.warn(`📼 Failed to load ${endpoint} fixtures:`, error);
+          return { responses: [] };
+        });
+      this.files.set(endpoint, file);
+    }
+    return file;
+  }
+}
+
+export class YouTubeTransportService {
+  private static fixtureTransport: FixtureTransport | null = null;
+  private static recording: Partial<Record<YouTubeEndpoint, FixtureEntry[]>> | null = null;
+
+  static getMode(): YouTubeTransportMode {
+    return SettingsService.getSettings().transportMode || 'live';
+  }
+
+  static getTransport(): YouTubeTransport {
+    switch (this.getMode()) {
+      case 'fixture':
+        this.fixtureTransport ??= new FixtureTransport();
+        return this.fixtureTransport;
+      case 'mock':
+        return new HttpTransport(SettingsService.getSettings().mockServerUrl || DEFAULT_MOCK_SERVER_URL, 'mock');
+      default:
+        return new HttpTransport(YOUTUBE_API_BASE, 'live');
+    }
+  }
+
+  // 录制真实响应，导出后放到 frontend/fixtures/youtube/ 即可离线回放
+  static startRecording(): void {
+    this.recording = {};
+    log.info('⏺️ Started recording YouTube API responses');
+  }
+
+  static stopRecording(): void {
+    this.recording = null;
+    log.info('⏹️ Stopped recording YouTube API responses');
+  }
+
+  static isRecording(): boolean {
+    return this.recording !== null;
+  }
+
+  static record(endpoint: YouTubeEndpoint, params: TransportParams, response: TransportResponse): void {
+    if (!this.recording) return;
+    (this.recording[endpoint] ??= []).push({ params, status: response.status, body: response.body });
+  }
+
+  static exportRecording(): Partial<Record<YouTubeEndpoint, FixtureFile>> {
+    const files: Partial<Record<YouTubeEndpoint, FixtureFile>> = {};
+    Object.entries(this.recording || {}).forEach(([endpoint, responses]) => {
+      files[endpoint as YouTubeEndpoint] = { responses };
+    });
+    return files;
+  }
+}
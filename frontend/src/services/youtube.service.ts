@@ -1,175 +1,153 @@
-import type { InfluencerResult, RecentVideo, SearchFilters, VideoResult } from '../types';
-import { SettingsService } from './settings.service';
-
-interface YouTubeApiResponse {
-  items?: any[];
-  nextPageToken?: string;
-  pageInfo?: {
-    totalResults: number;
-    resultsPerPage: number;
-  };
+import type {
+  ChannelActivity,
+  ChannelLinkResponse,
+  ChannelProfile,
+  InfluencerResult,
+  RecentVideo,
+  ChannelSimilarity,
+  SearchFilters,
+  ResolvedLink,
+  SearchOutcome,
+  UnresolvedLink,
+  VideoResult
+} from '../types';
+import { SettingsService, type YouTubeApiKey } from './settings.service';
+import { QUOTA_COSTS, type SearchCostPlan } from './quota.service';
+import { getApiVideoDuration, matchesDurationFilter, parseDuration } from '../utils/duration';
+import { WorkQueue } from '../utils/workQueue';
+import { OutcomeRecorder } from '../utils/searchOutcomes';
+import { toAppError } from '../utils/errors';
+import { parseChannelLink } from '../utils/channelLinks';
+import { extractTerms, mineDistinctiveTerms, pickSearchTerms } from '../utils/termMining';
+import { getChannelActivity, hasActivityFilter, matchesActivityFilter } from '../utils/uploadActivity';
+import {
+  YouTubeApiError,
+  YouTubeApiService,
+  isAbortError,
+  type YouTubeChannelItem,
+  type SearchListParams,
+  type YouTubeErrorReason,
+  type YouTubeSearchItem,
+  type YouTubeVideoItem
+} from './youtube-api.service';
+import { YouTubeTransportService } from './youtube-transport.service';
+import { CacheService } from './cache.service';
+import { EntityStoreService } from './entity-store.service';
+import { ChannelResolverService } from './channel-resolver.service';
+import { createLogger } from './logger.service';
+
+const log = createLogger('youtube');
+const scoringLog = createLogger('scoring');
+
+// search.list / playlistItems.list 单页最多返回50条
+const MAX_PAGE_SIZE = 50;
+
+// 本地匹配关键词时取频道最近上传的视频数量（一页上传列表）
+const CHANNEL_UPLOADS_SAMPLE = 50;
+
+// 测试API连接时查询的频道（YouTube官方频道）
+const CONNECTION_TEST_CHANNEL_ID = 'UCBR8-60-B28hp2BmDPdntcQ';
+
+// 相似创作者：每个挖掘出的搜索词一次 search.list（100单位），每个词取前若干个频道
+const SIMILAR_SEARCH_TERMS = 3;
+const SIMILAR_CHANNELS_PER_TERM = 10;
+// 订阅量级分档：<1K / 1K-10K / 10K-100K / 100K-1M / ≥1M
+const SUBSCRIBER_BANDS = [1_000, 10_000, 100_000, 1_000_000];
+
+const getSubscriberBand = (subscriberCount: number) =>
+  SUBSCRIBER_BANDS.filter(threshold => subscriberCount >= threshold).length;
+
+export interface VideoSearchPage {
+  videos: VideoResult[];
+  nextPageTokens: Record<string, string>; // 每个搜索查询的下一页token
+  outcomes: SearchOutcome[]; // 各查询各阶段的执行结果；全部查询失败时直接抛出错误
 }
 
-export class YouTubeService {
-  constructor() {
-    // 不再需要传入API key，将从SettingsService动态获取
-    console.log(`🔑 YouTubeService initialized with multi-key support`);
-  }
-
-  private getCurrentApiKey(): { key: string; keyId: string } | null {
-    const settings = SettingsService.getSettings();
-    const currentKey = settings.youtubeApiKeys[settings.currentKeyIndex];
-    
-    if (!currentKey || currentKey.status !== 'active') {
-      console.error('🚫 No active API key available');
-      return null;
-    }
-    
-    // 记录当前使用的key ID用于调试
-    console.log(`🔑 Using API key: ${currentKey.name} (${currentKey.key.substring(0, 10)}...)`);
-    return { key: currentKey.key, keyId: currentKey.id };
-  }
+export interface InfluencerSearchResult {
+  influencers: InfluencerResult[];
+  outcomes: SearchOutcome[];
+}
 
-  private async handleApiError(error: any, keyId: string): Promise<boolean> {
-    console.error('🚫 YouTube API Error:', error);
-    
-    // 检查是否是配额错误
-    if (error.status === 403 && 
-        (error.message?.includes('quota') || error.message?.includes('limit'))) {
-      console.log(`🚫 Quota exhausted for key: ${keyId}`);
-      
-      // 标记当前key为已用尽
-      SettingsService.markKeyAsExhausted(keyId, error.message);
-      
-      // 尝试切换到下一个key
-      const switched = SettingsService.switchToNextKey();
-      if (switched) {
-        console.log(`🔄 Successfully switched to next API key`);
-        return true; // 表示可以重试
-      } else {
-        console.error(`🚫 No more active API keys available`);
-        throw new Error('All YouTube API keys have been exhausted. Please add more keys or wait for quota reset.');
-      }
-    }
-    
-    // 其他类型的错误不切换key
-    return false;
-  }
+export interface SimilarChannelsResult {
+  searchTerms: string[];
+  influencers: InfluencerResult[];
+  outcomes: SearchOutcome[];
+}
 
-  private async executeWithRetry<T>(
-    operation: (apiKeyInfo: { key: string; keyId: string }) => Promise<T>
-  ): Promise<T> {
-    const maxRetries = 3;
-    let attempt = 0;
+export interface ApiConnectionTestResult {
+  success: boolean;
+  message: string;
+  details?: {
+    status?: number;
+    reason?: YouTubeErrorReason;
+    error?: unknown;
+  };
+}
 
-    while (attempt < maxRetries) {
-      try {
-        const apiKeyInfo = this.getCurrentApiKey();
-        if (!apiKeyInfo) {
-          throw new Error('No active YouTube API key available');
-        }
+export class YouTubeService {
+  private api: YouTubeApiService;
+  // 频道视频的获取队列：限制并发，同一频道在多个搜索模式中出现时只请求一次
+  private channelVideoQueue: WorkQueue<YouTubeVideoItem[]>;
 
-        const result = await operation(apiKeyInfo);
-        
-        // 更新使用统计
-        SettingsService.updateKeyUsage(apiKeyInfo.keyId, 101); // 假设每次操作消耗101 units
-        
-        return result;
-      } catch (error: any) {
-        console.error(`🚫 API operation failed (attempt ${attempt + 1}/${maxRetries}):`, error);
-        
-        const currentKeyInfo = this.getCurrentApiKey();
-        if (currentKeyInfo) {
-          const shouldRetry = await this.handleApiError(error, currentKeyInfo.keyId);
-          if (shouldRetry && attempt < maxRetries - 1) {
-            attempt++;
-            console.log(`🔄 Retrying with new API key...`);
-            continue;
-          }
-        }
-        
-        throw error;
-      }
-    }
-    
-    throw new Error('Max retries exceeded');
+  constructor() {
+    // 不再需要传入API key，所有请求经由YouTubeApiService统一处理key注入和切换
+    this.api = new YouTubeApiService();
+    this.channelVideoQueue = new WorkQueue(SettingsService.getEnrichmentConcurrency());
+    log.debug(`🔑 YouTubeService initialized with multi-key support`);
   }
 
-  // 测试API连接状态
-  async testApiConnection(): Promise<{ success: boolean; message: string; details?: any }> {
+  // 测试API连接状态（指定apiKey时只测试该key）
+  async testApiConnection(apiKey?: YouTubeApiKey): Promise<ApiConnectionTestResult> {
     try {
-      console.log('🔧 Testing YouTube API connection...');
-      
-      // 使用简单的搜索请求测试API
-      const testUrl = new URL('https://www.googleapis.com/youtube/v3/search');
-      testUrl.searchParams.set('part', 'snippet');
-      testUrl.searchParams.set('q', 'test');
-      testUrl.searchParams.set('type', 'video');
-      testUrl.searchParams.set('maxResults', '1');
-      const apiKeyInfo = this.getCurrentApiKey();
-      if (!apiKeyInfo) {
-        return { success: false, message: 'No active API key available' };
-      }
-      testUrl.searchParams.set('key', apiKeyInfo.key);
+      log.info('🔧 Testing YouTube API connection...');
 
-      const response = await fetch(testUrl.toString(), {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-        },
-        mode: 'cors'
-      });
-      
-      if (response.ok) {
-        console.log('✅ YouTube API connection successful');
-        return {
-          success: true,
-          message: '✅ YouTube API连接正常'
-        };
-      } else {
-        const errorData = await response.json().catch(() => ({}));
-        console.error('❌ YouTube API connection failed:', errorData);
-        
-        let message = '❌ YouTube API连接失败';
-        if (response.status === 403) {
-          const error = errorData?.error;
-          console.error('🚨 YouTube API 403错误详情:', errorData);
-          
-          if (error?.message?.includes('quotaExceeded')) {
+      const client = apiKey ? new YouTubeApiService(apiKey) : this.api;
+      // 用1单位的 channels.list 测试（search.list 需要100单位，定期重新检测error状态的key时会消耗大量配额）
+      await client.channels({ part: 'id', id: [CONNECTION_TEST_CHANNEL_ID] });
+
+      log.info('✅ YouTube API connection successful');
+      return {
+        success: true,
+        message: '✅ YouTube API连接正常'
+      };
+    } catch (error) {
+      if (error instanceof YouTubeApiError) {
+        log.error('❌ YouTube API connection failed:', error.details);
+
+        let message = `❌ YouTube API连接失败 - ${error.userMessage}`;
+        switch (error.reason) {
+          case 'quotaExceeded':
             message = '🚫 YouTube API配额已用完 - 请等待配额重置或升级计划';
-          } else if (error?.message?.includes('accessNotConfigured')) {
+            break;
+          case 'accessNotConfigured':
             message = '🔧 YouTube Data API v3未启用 - 请在Google Cloud Console中启用';
-          } else if (error?.message?.includes('keyInvalid')) {
+            break;
+          case 'keyInvalid':
             message = '🔑 YouTube API密钥无效 - 请检查密钥是否正确';
-          } else if (error?.message?.includes('forbidden')) {
+            break;
+          case 'forbidden':
             message = '🚫 API密钥权限不足 - 请检查密钥是否有YouTube API权限';
-          } else {
-            message = `🚫 YouTube API访问被拒绝 - 错误: ${error?.message || '未知错误'}`;
-          }
-          
-          // 提供详细的解决方案
-          console.error('🔧 解决方案:');
-          console.error('1. 确认API密钥有效: https://console.cloud.google.com/apis/credentials');
-          console.error('2. 启用YouTube Data API v3: https://console.cloud.google.com/apis/library/youtube.googleapis.com');
-          console.error('3. 检查API配额: https://console.cloud.google.com/apis/api/youtube.googleapis.com/quotas');
-          console.error('4. 验证HTTP引用来源设置');
-          
-        } else if (response.status === 400) {
-          message = '❌ API请求参数错误';
+            break;
+          case 'badRequest':
+            message = '❌ API请求参数错误';
+            break;
+          case 'noActiveKey':
+            message = 'No active API key available';
+            break;
         }
-        
+
         return {
           success: false,
           message,
           details: {
-            status: response.status,
-            error: errorData
+            status: error.status,
+            reason: error.reason,
+            error: error.details
           }
         };
       }
-    } catch (error) {
-      console.error('❌ YouTube API test failed:', error);
+
+      log.error('❌ YouTube API test failed:', error);
       return {
         success: false,
         message: '❌ 网络连接失败或API不可用',
@@ -178,40 +156,22 @@ export class YouTubeService {
     }
   }
 
-  // 清理过期缓存和损坏的缓存数据
-  static clearExpiredCache(): void {
-    try {
-      const keys = Object.keys(localStorage);
-      const youtubeKeys = keys.filter(key => key.startsWith('search_'));
-      
-      youtubeKeys.forEach(key => {
-        try {
-          const cached = localStorage.getItem(key);
-          if (cached) {
-            const { data, expiry } = JSON.parse(cached);
-            if (!data || !expiry || Date.now() > expiry) {
-              localStorage.removeItem(key);
-              console.log(`Cleared expired cache: ${key}`);
-            }
-          }
-        } catch (e) {
-          // 清理损坏的缓存数据
-          localStorage.removeItem(key);
-          console.log(`Cleared corrupted cache: ${key}`);
-        }
-      });
-    } catch (error) {
-      console.warn('Failed to clear expired cache:', error);
+  // 清理过期缓存，以及迁移前遗留在localStorage中的缓存
+  static async clearExpiredCache(): Promise<void> {
+    CacheService.clearLegacyStorage();
+    const cleared = await CacheService.clearExpired();
+    if (cleared > 0) {
+      log.info(`Cleared ${cleared} expired cache entries`);
     }
   }
 
   async searchInfluencers(
     keywords: string[], 
     filters: SearchFilters,
-    originalTopic?: string
-  ): Promise<InfluencerResult[]> {
+    originalTopic?: string,
+    signal?: AbortSignal
+  ): Promise<InfluencerSearchResult> {
     const {
-      region = 'US',
       minSubscribers = 1000,
       minViews = 10000,
       maxResults = 50
@@ -221,27 +181,28 @@ export class YouTubeService {
     const cacheKey = this.generateCacheKey('search', { keywords, filters, apiKeyHash: this.getApiKeyHash() });
     
     // Check cache first
-    const cachedResult = this.getFromCache(cacheKey);
+    const cachedResult = await CacheService.get<InfluencerResult[]>('search', cacheKey);
     if (cachedResult) {
-      console.log(`Returning cached search results for keywords: ${keywords.join(', ')}`);
-      return cachedResult;
+      log.info(`Returning cached search results for keywords: ${keywords.join(', ')}`);
+      return { influencers: cachedResult, outcomes: [] };
     }
 
     try {
-      console.log(`Searching YouTube influencers with keywords: ${keywords.join(', ')}`);
+      log.info(`Searching YouTube influencers with keywords: ${keywords.join(', ')}`);
       if (originalTopic) {
-        console.log(`🎯 Original topic: "${originalTopic}" - prioritizing related keywords`);
+        log.info(`🎯 Original topic: "${originalTopic}" - prioritizing related keywords`);
       }
 
       const allChannels = new Map<string, InfluencerResult>();
+      const recorder = new OutcomeRecorder();
 
       // 优化关键词优先级 - 包含原始产品名称的关键词优先搜索
       const prioritizedKeywords = this.prioritizeKeywords(keywords, originalTopic);
-      console.log(`📊 Keyword priority order: ${prioritizedKeywords.join(', ')}`);
+      log.info(`📊 Keyword priority order: ${prioritizedKeywords.join(', ')}`);
 
       // 直接搜索策略：对单个关键词进行多种搜索模式
       for (const keyword of prioritizedKeywords.slice(0, 1)) { // 只处理第一个关键词（用户输入）
-        console.log(`🎯 Performing comprehensive search for: "${keyword}"`);
+        log.info(`🎯 Performing comprehensive search for: "${keyword}"`);
         
         // 使用不同的搜索模式来获取更全面的结果
         const searchModes = [
@@ -253,21 +214,18 @@ export class YouTubeService {
         ];
         
         for (const searchQuery of searchModes) {
-          try {
-            const channels = await this.searchByKeyword(searchQuery, region, Math.min(10, maxResults), originalTopic);
-            
-            channels.forEach(channel => {
-              if (!allChannels.has(channel.channelId)) {
-                allChannels.set(channel.channelId, channel);
-              } else {
-                // Update relevance score if this channel appears in multiple searches
-                const existing = allChannels.get(channel.channelId)!;
-                existing.relevanceScore = Math.min(100, existing.relevanceScore + 15);
-              }
-            });
-          } catch (error) {
-            console.warn(`Failed to search for query: ${searchQuery}`, error);
-          }
+          // 失败的阶段由recorder记录，不影响其他搜索模式
+          const channels = await this.searchByKeyword(searchQuery, filters, Math.min(10, maxResults), recorder, originalTopic, signal);
+
+          channels.forEach(channel => {
+            if (!allChannels.has(channel.channelId)) {
+              allChannels.set(channel.channelId, channel);
+            } else {
+              // Update relevance score if this channel appears in multiple searches
+              const existing = allChannels.get(channel.channelId)!;
+              existing.relevanceScore = Math.min(100, existing.relevanceScore + 15);
+            }
+          });
         }
       }
 
@@ -276,7 +234,8 @@ export class YouTubeService {
         .filter(channel => 
           channel.subscriberCount >= minSubscribers &&
           (channel.recentVideos.length === 0 || 
-           channel.recentVideos.some(video => video.viewCount >= minViews))
+           channel.recentVideos.some(video => video.viewCount >= minViews)) &&
+          matchesActivityFilter(channel.activity, filters)
         );
 
       // Sort by relevance score and subscriber count
@@ -290,113 +249,259 @@ export class YouTubeService {
         })
         .slice(0, maxResults);
 
-      // Cache the results for 30 minutes
-      this.setCache(cacheKey, results, 30 * 60 * 1000);
+      // Cache the results（search命名空间默认30分钟）；有失败阶段的不完整结果不缓存
+      const outcomes = recorder.getOutcomes();
+      if (outcomes.every(outcome => outcome.status === 'success')) {
+        await CacheService.set('search', cacheKey, results);
+      }
 
-      console.log(`Found ${results.length} influencers matching criteria`);
-      return results;
+      log.info(`Found ${results.length} influencers matching criteria`);
+      return { influencers: results, outcomes };
 
     } catch (error) {
-      console.error('YouTube search error:', error);
+      if (isAbortError(error) || error instanceof YouTubeApiError) throw error;
+      log.error('YouTube search error:', error);
       throw new Error('Failed to search YouTube influencers');
     }
   }
 
-  private async searchByKeyword(
-    keyword: string, 
-    region: string, 
-    maxResults: number,
-    originalTopic?: string
-  ): Promise<InfluencerResult[]> {
-    try {
-      // 直接搜索策略，使用精确的搜索查询
-      const searchUrl = new URL('https://www.googleapis.com/youtube/v3/search');
-      searchUrl.searchParams.set('part', 'snippet');
-      // 使用传入的关键词进行精确搜索（已经在上层处理了不同的搜索模式）
-      searchUrl.searchParams.set('q', keyword);
-      searchUrl.searchParams.set('type', 'video');
-      searchUrl.searchParams.set('regionCode', region);
-      searchUrl.searchParams.set('maxResults', (maxResults * 2).toString()); // 适度增加搜索结果数量
-      searchUrl.searchParams.set('order', 'relevance');
-      searchUrl.searchParams.set('publishedAfter', new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString());
-      const currentApiKey = this.getCurrentApiKey();
-      if (!currentApiKey) {
-        throw new Error('No active API key available');
+  // 频道链接模式：把每个链接解析为频道并生成完整的频道资料；无法解析的链接单独返回
+  // 用户指定的频道不按订阅数和相关度筛选；提供主题时用于计算相关度和挑选相关视频
+  async resolveChannelLinks(inputs: string[], topic?: string, signal?: AbortSignal): Promise<ChannelLinkResponse> {
+    const recorder = new OutcomeRecorder();
+    const resolved: ResolvedLink[] = [];
+    const unresolved: UnresolvedLink[] = [];
+    // 已处理的频道：null 表示已生成结果，否则为失败原因（链接按顺序处理，重复链接出现时首个链接已有结果）
+    const channelOutcomes = new Map<string, string | null>();
+    const keyword = topic?.trim() || '';
+
+    const resolveOne = async (input: string): Promise<InfluencerResult | null> => {
+      const link = parseChannelLink(input);
+      if (!link) {
+        unresolved.push({ input, reason: '无法识别的链接格式' });
+        return null;
       }
-      searchUrl.searchParams.set('key', currentApiKey.key);
 
-      console.log(`🔍 Searching YouTube for: "${keyword}"`);
-      console.log(`📡 API URL: ${searchUrl.toString().replace(currentApiKey.key, 'API_KEY_HIDDEN')}`);
-      
-      const searchResponse = await fetch(searchUrl.toString(), {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-        },
-        mode: 'cors'
-      });
-      
-      if (!searchResponse.ok) {
-        let errorMessage = `YouTube API Error ${searchResponse.status}`;
-        let userMessage = '';
-        
-        try {
-          const errorData = await searchResponse.json();
-          console.error('📱 YouTube API Error Details:', errorData);
-          
-          if (searchResponse.status === 403) {
-            const error = errorData?.error;
-            if (error?.message?.includes('quotaExceeded')) {
-              userMessage = '🚫 YouTube API 配额已用完，请稍后重试或检查API密钥限制。';
-              errorMessage = 'YouTube API quota exceeded';
-            } else if (error?.message?.includes('accessNotConfigured')) {
-              userMessage = '🔧 YouTube Data API v3 未启用，请在Google Cloud Console中启用该API。';
-              errorMessage = 'YouTube Data API v3 not enabled';
-            } else if (error?.message?.includes('keyInvalid')) {
-              userMessage = '🔑 YouTube API密钥无效，请检查设置中的API密钥是否正确。';
-              errorMessage = 'Invalid YouTube API key';
-            } else {
-              userMessage = '🚫 YouTube API访问被拒绝，请检查API密钥权限设置。';
-              errorMessage = 'YouTube API access forbidden';
-            }
-          } else if (searchResponse.status === 400) {
-            userMessage = '❌ 搜索参数无效，请尝试不同的关键词。';
-            errorMessage = 'Invalid search parameters';
+      // 出错时记录到该频道，供后面指向同一频道的链接沿用
+      let pendingChannelId: string | null = null;
+      try {
+        const channelId = await recorder.track(input, 'resolve', this.api,
+          api => ChannelResolverService.resolve(api, link, signal));
+        if (!channelId) {
+          unresolved.push({ input, reason: '未找到对应的频道' });
+          return null;
+        }
+        // 多个链接指向同一频道时只生成一个结果，重复的链接沿用首个链接的结果
+        if (channelOutcomes.has(channelId)) {
+          const reason = channelOutcomes.get(channelId);
+          if (reason) {
+            unresolved.push({ input, reason });
           } else {
-            userMessage = `🌐 YouTube API请求失败 (${searchResponse.status})，请稍后重试。`;
+            resolved.push({ input, channelId });
           }
-        } catch (e) {
-          userMessage = `🌐 YouTube API请求失败 (${searchResponse.status})，请稍后重试。`;
+          return null;
         }
-        
-        // 详细的403错误诊断
-        if (searchResponse.status === 403) {
-          console.error('🚨 YouTube API 403错误详细诊断:');
-          console.error('📍 检查清单:');
-          console.error('1. API密钥是否有效？');
-          console.error('2. YouTube Data API v3是否已启用？');
-          console.error('3. API密钥是否有YouTube API权限？');
-          console.error('4. 是否设置了正确的HTTP引用来源？');
-          console.error('5. API配额是否已用完？');
-          console.error('🔗 请访问: https://console.cloud.google.com/apis/dashboard');
+        pendingChannelId = channelId;
+
+        const [channel] = await recorder.track(input, 'channelDetails', this.api, api => EntityStoreService.getChannels(
+          api,
+          [channelId],
+          ['snippet', 'statistics', 'contentDetails', 'brandingSettings'],
+          signal
+        ));
+        if (!channel?.snippet || !channel.statistics) {
+          channelOutcomes.set(channelId, '频道不存在或不可访问');
+          unresolved.push({ input, reason: '频道不存在或不可访问' });
+          return null;
         }
-        
-        const error = new Error(userMessage || errorMessage);
-        (error as any).status = searchResponse.status;
-        (error as any).userMessage = userMessage;
-        throw error;
+
+        const recentVideos = await this.getTopViewedVideos(channel.id, keyword, 3, recorder, signal, input);
+        const relevanceScore = keyword
+          ? this.calculateRelevanceScore(
+            channel.snippet.title || '',
+            channel.snippet.description || '',
+            keyword,
+            parseInt(channel.statistics.subscriberCount || '0'),
+            recentVideos
+          )
+          : 100; // 没有主题时用户指定的频道视为完全匹配
+        const activity = await this.getUploadActivity(channel.id, signal);
+        // 生成了结果才算解析成功
+        channelOutcomes.set(channelId, null);
+        resolved.push({ input, channelId });
+        return { ...this.toInfluencerResult(channel, recentVideos, relevanceScore), activity };
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        // 失败已由recorder记录
+        const reason = toAppError(error, '解析失败').message;
+        if (pendingChannelId) {
+          channelOutcomes.set(pendingChannelId, reason);
+        }
+        unresolved.push({ input, reason });
+        return null;
+      }
+    };
+
+    // 按顺序解析，重复的频道保留先出现的链接
+    const results: InfluencerResult[] = [];
+    for (const input of inputs) {
+      const result = await resolveOne(input);
+      if (result) {
+        results.push(result);
       }
+    }
 
-      const searchData: YouTubeApiResponse = await searchResponse.json();
+    log.info(`🔗 Resolved ${results.length}/${inputs.length} channel links`);
+    return { results, resolved, unresolved, outcomes: recorder.getOutcomes() };
+  }
 
-      if (!searchData.items) {
-        return [];
-      }
+  // 相似创作者：从种子频道最近上传视频的标题和标签中挖掘搜索词，逐个搜索，
+  // 按订阅量级接近程度和共有词的权重排序；种子频道和 excludeChannelIds 中的频道不返回
+  async findSimilarChannels(
+    seed: InfluencerResult,
+    excludeChannelIds: string[],
+    filters: SearchFilters,
+    signal?: AbortSignal
+  ): Promise<SimilarChannelsResult> {
+    const recorder = new OutcomeRecorder();
+    const seedVideos = await recorder.track(seed.channelTitle, 'channelVideos', this.api,
+      api => this.channelVideoQueue.run(seed.channelId, () => this.fetchChannelVideos(api, seed.channelId, signal)));
+
+    const seedTerms = mineDistinctiveTerms(
+      seedVideos.map(video => ({ title: video.snippet?.title || '', tags: video.snippet?.tags })),
+      [seed.channelTitle]
+    );
+    const searchTerms = pickSearchTerms(seedTerms, SIMILAR_SEARCH_TERMS);
+    log.info(`🧬 Similar creators for "${seed.channelTitle}": terms ${searchTerms.join(', ') || '(none)'}`);
+    if (searchTerms.length === 0) {
+      return { searchTerms, influencers: [], outcomes: recorder.getOutcomes() };
+    }
+
+    const excluded = new Set([seed.channelId, ...excludeChannelIds]);
+    const candidates = new Map<string, InfluencerResult>();
+    for (const term of searchTerms) {
+      // 失败的阶段由recorder记录，不影响其他搜索词
+      const channels = await this.searchByKeyword(term, filters, SIMILAR_CHANNELS_PER_TERM, recorder, undefined, signal);
+      channels
+        .filter(channel => !excluded.has(channel.channelId) && !candidates.has(channel.channelId))
+        .forEach(channel => candidates.set(channel.channelId, channel));
+    }
+
+    const seedBand = getSubscriberBand(seed.subscriberCount);
+    const totalWeight = seedTerms.reduce((sum, term) => sum + term.weight, 0);
+    const { minSubscribers = 0, maxResults = 50 } = filters;
+
+    const influencers = await Promise.all([...candidates.values()]
+      .filter(channel => channel.subscriberCount >= minSubscribers)
+      .map(async channel => {
+        // 上传列表已在搜索时由channelVideoQueue获取，这里直接复用
+        const uploads = await this.channelVideoQueue.run(channel.channelId,
+          () => this.fetchChannelVideos(this.api, channel.channelId, signal)).catch(error => {
+          if (isAbortError(error)) throw error;
+          return [];
+        });
+        const channelTerms = new Set(uploads.flatMap(video =>
+          [...extractTerms({ title: video.snippet?.title || '', tags: video.snippet?.tags }).keys()]));
+        const shared = seedTerms.filter(({ term }) => channelTerms.has(term));
+        const overlap = totalWeight > 0 ? shared.reduce((sum, term) => sum + term.weight, 0) / totalWeight : 0;
+
+        const similarity: ChannelSimilarity = {
+          seedChannelId: seed.channelId,
+          sharedTerms: shared.map(({ term }) => term),
+          bandDistance: Math.abs(getSubscriberBand(channel.subscriberCount) - seedBand)
+        };
+        // 同一量级得满分，相差一档得一半；共有词按种子词的权重计算
+        const bandScore = Math.max(0, 1 - similarity.bandDistance / 2);
+        const relevanceScore = Math.round(bandScore * 40 + overlap * 60);
+        scoringLog.debug(`🧬 ${channel.channelTitle}: band ${similarity.bandDistance}, shared [${similarity.sharedTerms.join(', ')}] -> ${relevanceScore}`);
+
+        return { ...channel, relevanceScore, similarity };
+      }));
+
+    const results = influencers
+      .filter(channel => matchesActivityFilter(channel.activity, filters))
+      .sort((a, b) => b.relevanceScore - a.relevanceScore || b.subscriberCount - a.subscriberCount)
+      .slice(0, maxResults);
+
+    // 所有搜索词都失败且没有任何结果时抛出第一个错误
+    if (results.length === 0 && searchTerms.every(term => recorder.hasFailed(term))) {
+      throw recorder.getFirstError();
+    }
+
+    log.info(`🧬 Found ${results.length} creators similar to "${seed.channelTitle}"`);
+    return { searchTerms, influencers: results, outcomes: recorder.getOutcomes() };
+  }
+
+  // 频道详情：完整的频道资料和最近上传的视频（约3单位，频道资料通常已在实体缓存中）；频道不存在时返回 null
+  async getChannelProfile(channelId: string, signal?: AbortSignal): Promise<ChannelProfile | null> {
+    const [channel] = await EntityStoreService.getChannels(
+      this.api,
+      [channelId],
+      ['snippet', 'statistics', 'contentDetails', 'brandingSettings'],
+      signal
+    );
+    if (!channel?.snippet) {
+      return null;
+    }
+
+    const videos = await this.channelVideoQueue.run(channelId, () => this.fetchChannelVideos(this.api, channelId, signal));
+    const uploads = videos
+      .map(video => ({
+        videoId: video.id,
+        title: video.snippet?.title || 'Unknown Title',
+        publishedAt: video.snippet?.publishedAt || '',
+        viewCount: parseInt(video.statistics?.viewCount || '0'),
+        likeCount: parseInt(video.statistics?.likeCount || '0'),
+        commentCount: parseInt(video.statistics?.commentCount || '0'),
+        thumbnailUrl: video.snippet?.thumbnails?.medium?.url || video.snippet?.thumbnails?.default?.url || ''
+      }))
+      .sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime());
+
+    const activity = this.toChannelActivity(videos);
+    const summary = this.toInfluencerResult(channel, [], 0);
+    log.info(`🪪 Loaded profile for "${summary.channelTitle}" with ${uploads.length} uploads`);
+    return {
+      channelId: summary.channelId,
+      channelTitle: summary.channelTitle,
+      channelUrl: summary.channelUrl,
+      thumbnailUrl: channel.snippet.thumbnails?.high?.url || summary.thumbnailUrl,
+      subscriberCount: summary.subscriberCount,
+      viewCount: summary.viewCount,
+      videoCount: summary.videoCount,
+      country: summary.country,
+      description: channel.snippet.description || '',
+      customUrl: channel.snippet.customUrl,
+      publishedAt: channel.snippet.publishedAt || '',
+      uploads,
+      activity
+    };
+  }
+
+  private async searchByKeyword(
+    keyword: string, 
+    filters: SearchFilters, 
+    maxResults: number,
+    recorder: OutcomeRecorder,
+    originalTopic?: string,
+    signal?: AbortSignal
+  ): Promise<InfluencerResult[]> {
+    const { region = 'US', publishedAfter, publishedBefore } = filters;
+    try {
+      log.info(`🔍 Searching YouTube for: "${keyword}"`);
+
+      // 直接搜索策略，使用传入的关键词进行精确搜索（已经在上层处理了不同的搜索模式）
+      const searchItems = await recorder.track(keyword, 'search', this.api, api => this.collectSearchItems(api, {
+        q: keyword,
+        type: 'video',
+        regionCode: region,
+        order: 'relevance',
+        publishedAfter,
+        publishedBefore
+      }, maxResults * 2, signal)); // 适度增加搜索结果数量
 
       // Extract unique channel IDs
       const channelIds = [...new Set(
-        searchData.items
+        searchItems
           .map(item => item.snippet?.channelId)
           .filter(Boolean) as string[]
       )];
@@ -405,92 +510,64 @@ export class YouTubeService {
         return [];
       }
 
-      // Get channel details
-      const channelsUrl = new URL('https://www.googleapis.com/youtube/v3/channels');
-      channelsUrl.searchParams.set('part', 'snippet,statistics,brandingSettings');
-      channelsUrl.searchParams.set('id', channelIds.slice(0, maxResults).join(','));
-      const currentApiKey2 = this.getCurrentApiKey();
-      if (!currentApiKey2) {
-        throw new Error('No active API key available');
-      }
-      channelsUrl.searchParams.set('key', currentApiKey2.key);
+      // Get channel details（只请求实体缓存中缺失或过期的频道；contentDetails 提供上传列表ID，不额外消耗配额）
+      const channelItems = await recorder.track(keyword, 'channelDetails', this.api, api => EntityStoreService.getChannels(
+        api,
+        channelIds.slice(0, maxResults),
+        ['snippet', 'statistics', 'contentDetails', 'brandingSettings'],
+        signal
+      ));
 
-      const channelsResponse = await fetch(channelsUrl.toString(), {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-        },
-        mode: 'cors'
-      });
-      if (!channelsResponse.ok) {
-        let errorMessage = `YouTube Channels API Error ${channelsResponse.status}`;
-        let userMessage = '';
-        
-        try {
-          const errorData = await channelsResponse.json();
-          console.error('📱 YouTube Channels API Error Details:', errorData);
-          
-          if (channelsResponse.status === 403) {
-            const error = errorData?.error;
-            if (error?.message?.includes('quotaExceeded')) {
-              userMessage = '🚫 YouTube API 配额已用完，请稍后重试或检查API密钥限制。';
-              errorMessage = 'YouTube API quota exceeded';
-            } else if (error?.message?.includes('accessNotConfigured')) {
-              userMessage = '🔧 YouTube Data API v3 未启用，请在Google Cloud Console中启用该API。';
-              errorMessage = 'YouTube Data API v3 not enabled';
-            } else if (error?.message?.includes('keyInvalid')) {
-              userMessage = '🔑 YouTube API密钥无效，请检查设置中的API密钥是否正确。';
-              errorMessage = 'Invalid YouTube API key';
-            } else {
-              userMessage = '🚫 YouTube API访问被拒绝，请检查API密钥权限设置。';
-              errorMessage = 'YouTube API access forbidden';
-            }
-          } else if (channelsResponse.status === 400) {
-            userMessage = '❌ 频道查询参数无效，请尝试不同的搜索条件。';
-            errorMessage = 'Invalid channel parameters';
-          } else {
-            userMessage = `🌐 YouTube频道API请求失败 (${channelsResponse.status})，请稍后重试。`;
-          }
-        } catch (e) {
-          userMessage = `🌐 YouTube频道API请求失败 (${channelsResponse.status})，请稍后重试。`;
-        }
-        
-        const error = new Error(userMessage || errorMessage);
-        (error as any).status = channelsResponse.status;
-        (error as any).userMessage = userMessage;
-        throw error;
-      }
+      // Process channels（并发数由channelVideoQueue限制）
+      const channels = await Promise.all(channelItems.map(channel =>
+        this.processChannel(channel, keyword, recorder, originalTopic, signal)
+      ));
 
-      const channelsData: YouTubeApiResponse = await channelsResponse.json();
-
-      if (!channelsData.items) {
-        return [];
-      }
-
-      // Process channels
-      const channels: InfluencerResult[] = [];
-      
-      for (const channel of channelsData.items) {
-        try {
-          const channelData = await this.processChannel(channel, keyword, originalTopic);
-          if (channelData) {
-            channels.push(channelData);
-          }
-        } catch (error) {
-          console.warn(`Failed to process channel ${channel.id}:`, error);
-        }
-      }
-
-      return channels;
+      return channels.filter((channel): channel is InfluencerResult => channel !== null);
 
     } catch (error) {
-      console.error(`Search by keyword error for "${keyword}":`, error);
+      if (isAbortError(error)) throw error;
+      // 失败已由recorder记录，随SearchOutcome返回给界面
+      log.warn(`Search by keyword failed for "${keyword}":`, error);
       return [];
     }
   }
 
-  private async processChannel(channel: any, searchKeyword: string, originalTopic?: string): Promise<InfluencerResult | null> {
+  // 按nextPageToken翻页收集search.list结果，直到达到目标数量或没有下一页
+  private async collectSearchItems(
+    api: YouTubeApiService,
+    params: SearchListParams,
+    targetCount: number,
+    signal?: AbortSignal
+  ): Promise<YouTubeSearchItem[]> {
+    const items: YouTubeSearchItem[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const searchData = await api.search({
+        ...params,
+        maxResults: Math.min(MAX_PAGE_SIZE, targetCount - items.length),
+        pageToken
+      }, signal);
+      const pageItems = searchData.items || [];
+      items.push(...pageItems);
+      pageToken = searchData.nextPageToken;
+
+      if (pageItems.length === 0) {
+        break;
+      }
+    } while (pageToken && items.length < targetCount);
+
+    return items;
+  }
+
+  private async processChannel(
+    channel: YouTubeChannelItem,
+    searchKeyword: string,
+    recorder: OutcomeRecorder,
+    originalTopic?: string,
+    signal?: AbortSignal
+  ): Promise<InfluencerResult | null> {
     try {
       const snippet = channel.snippet;
       const statistics = channel.statistics;
@@ -500,8 +577,6 @@ export class YouTubeService {
       }
 
       const subscriberCount = parseInt(statistics.subscriberCount || '0');
-      const viewCount = parseInt(statistics.viewCount || '0');
-      const videoCount = parseInt(statistics.videoCount || '0');
 
       // Skip channels with very low stats
       if (subscriberCount < 100) {
@@ -509,7 +584,7 @@ export class YouTubeService {
       }
 
       // Get recent videos (获取更多视频，然后按播放量排序选择前3个)
-      const recentVideos = await this.getTopViewedVideos(channel.id, searchKeyword, 3);
+      const recentVideos = await this.getTopViewedVideos(channel.id, searchKeyword, 3, recorder, signal);
 
       // Calculate relevance score
       const relevanceScore = this.calculateRelevanceScore(
@@ -521,116 +596,61 @@ export class YouTubeService {
         originalTopic
       );
 
-      return {
-        channelId: channel.id,
-        channelTitle: snippet.title || 'Unknown Channel',
-        channelUrl: `https://www.youtube.com/channel/${channel.id}`,
-        thumbnailUrl: snippet.thumbnails?.medium?.url || snippet.thumbnails?.default?.url || '',
-        subscriberCount,
-        viewCount,
-        videoCount,
-        country: snippet.country || 'Unknown',
-        recentVideos,
-        relevanceScore
-      };
+      const activity = await this.getUploadActivity(channel.id, signal);
+      return { ...this.toInfluencerResult(channel, recentVideos, relevanceScore), activity };
 
     } catch (error) {
-      console.warn('Process channel error:', error);
+      if (isAbortError(error)) throw error;
+      log.warn('Process channel error:', error);
       return null;
     }
   }
 
-  private async getTopViewedVideos(channelId: string, searchKeyword: string, maxResults: number): Promise<RecentVideo[]> {
-    try {
-      // 获取更多视频以便筛选 (获取20个视频)
-      const searchUrl = new URL('https://www.googleapis.com/youtube/v3/search');
-      searchUrl.searchParams.set('part', 'snippet');
-      searchUrl.searchParams.set('channelId', channelId);
-      searchUrl.searchParams.set('type', 'video');
-      searchUrl.searchParams.set('order', 'relevance'); // 改为按相关性排序
-      searchUrl.searchParams.set('maxResults', '20'); // 获取更多视频
-      const currentApiKey = this.getCurrentApiKey();
-      if (!currentApiKey) {
-        throw new Error('No active API key available');
-      }
-      searchUrl.searchParams.set('key', currentApiKey.key);
-
-      const searchResponse = await fetch(searchUrl.toString(), {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-        },
-        mode: 'cors'
-      });
-      if (!searchResponse.ok) {
-        return [];
-      }
-
-      const searchData: YouTubeApiResponse = await searchResponse.json();
-
-      if (!searchData.items) {
-        return [];
-      }
-
-      const videoIds = searchData.items
-        .map(item => item.id?.videoId)
-        .filter(Boolean) as string[];
-
-      if (videoIds.length === 0) {
-        return [];
-      }
-
-      const videosUrl = new URL('https://www.googleapis.com/youtube/v3/videos');
-      videosUrl.searchParams.set('part', 'snippet,statistics');
-      videosUrl.searchParams.set('id', videoIds.join(','));
-      const currentApiKey3 = this.getCurrentApiKey();
-      if (!currentApiKey3) {
-        throw new Error('No active API key available');
-      }
-      videosUrl.searchParams.set('key', currentApiKey3.key);
-
-      const videosResponse = await fetch(videosUrl.toString(), {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-        },
-        mode: 'cors'
-      });
-      if (!videosResponse.ok) {
-        console.warn(`YouTube Videos API error ${videosResponse.status} for channel ${channelId}`);
-        
-        try {
-          const errorData = await videosResponse.json();
-          console.error('📱 YouTube Videos API Error Details:', errorData);
-          
-          if (videosResponse.status === 403) {
-            const error = errorData?.error;
-            if (error?.message?.includes('quotaExceeded')) {
-              console.warn('🚫 API quota exceeded while fetching videos');
-            } else if (error?.message?.includes('accessNotConfigured')) {
-              console.warn('🔧 YouTube Data API v3 not enabled');
-            } else if (error?.message?.includes('keyInvalid')) {
-              console.warn('🔑 Invalid API key while fetching videos');
-            }
-          }
-        } catch (e) {
-          console.warn('Failed to parse video API error response');
-        }
-        
-        return [];
-      }
+  private toInfluencerResult(channel: YouTubeChannelItem, recentVideos: RecentVideo[], relevanceScore: number): InfluencerResult {
+    const snippet = channel.snippet;
+    const statistics = channel.statistics;
+    return {
+      channelId: channel.id,
+      channelTitle: snippet?.title || 'Unknown Channel',
+      channelUrl: `https://www.youtube.com/channel/${channel.id}`,
+      thumbnailUrl: snippet?.thumbnails?.medium?.url || snippet?.thumbnails?.default?.url || '',
+      subscriberCount: parseInt(statistics?.subscriberCount || '0'),
+      viewCount: parseInt(statistics?.viewCount || '0'),
+      videoCount: parseInt(statistics?.videoCount || '0'),
+      country: snippet?.country || 'Unknown',
+      recentVideos,
+      relevanceScore
+    };
+  }
 
-      const videosData: YouTubeApiResponse = await videosResponse.json();
+  // 频道活跃度；上传列表通常已由 getTopViewedVideos 获取，队列直接复用结果；获取失败时返回 undefined
+  private async getUploadActivity(channelId: string, signal?: AbortSignal): Promise<ChannelActivity | undefined> {
+    try {
+      const uploads = await this.channelVideoQueue.run(channelId, () => this.fetchChannelVideos(this.api, channelId, signal));
+      return this.toChannelActivity(uploads);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      log.warn(`Failed to get upload activity for channel ${channelId}:`, error);
+      return undefined;
+    }
+  }
 
-      if (!videosData.items) {
-        return [];
-      }
+  // searchKeyword 为空时不做相关性筛选，按播放量挑选；outcomeQuery 为记录执行结果时使用的查询名
+  private async getTopViewedVideos(
+    channelId: string,
+    searchKeyword: string,
+    maxResults: number,
+    recorder: OutcomeRecorder,
+    signal?: AbortSignal,
+    outcomeQuery: string = searchKeyword
+  ): Promise<RecentVideo[]> {
+    try {
+      const channelVideos = await recorder.track(outcomeQuery, 'channelVideos', this.api,
+        api => this.channelVideoQueue.run(channelId, () => this.fetchChannelVideos(api, channelId, signal)));
 
       // 转换为RecentVideo格式并计算相关性分数
-      const videos = videosData.items.map(video => ({
-        videoId: video.id!,
+      const videos = channelVideos.map(video => ({
+        videoId: video.id,
         title: video.snippet?.title || 'Unknown Title',
         publishedAt: video.snippet?.publishedAt || '',
         viewCount: parseInt(video.statistics?.viewCount || '0'),
@@ -653,11 +673,62 @@ export class YouTubeService {
       return sortedVideos.map(({ relevanceScore, ...video }) => video);
 
     } catch (error) {
-      console.warn(`Failed to get top viewed videos for channel ${channelId}:`, error);
+      if (isAbortError(error)) throw error;
+      // 失败已由recorder记录，频道仍然返回，只是没有代表视频
+      log.warn(`Failed to get top viewed videos for channel ${channelId}:`, error);
       return [];
     }
   }
 
+  // 上传列表只取最近 CHANNEL_UPLOADS_SAMPLE 个视频，取满时频道可能还有更早的上传
+  private toChannelActivity(uploads: YouTubeVideoItem[]): ChannelActivity {
+    return getChannelActivity(uploads.map(video => video.snippet?.publishedAt || ''), uploads.length >= CHANNEL_UPLOADS_SAMPLE);
+  }
+
+  // 频道最近上传的视频（上传列表 playlistItems.list + videos.list，每个频道约2单位，search.list需要100单位）
+  // 与搜索关键词无关，可以在多个搜索模式间复用；关键词匹配在本地完成
+  private async fetchChannelVideos(
+    api: YouTubeApiService,
+    channelId: string,
+    signal?: AbortSignal,
+    maxVideos: number = CHANNEL_UPLOADS_SAMPLE
+  ): Promise<YouTubeVideoItem[]> {
+    const [channel] = await EntityStoreService.getChannels(api, [channelId], ['contentDetails'], signal);
+    const uploadsPlaylistId = channel?.contentDetails?.relatedPlaylists?.uploads;
+    if (!uploadsPlaylistId) {
+      log.warn(`📂 Channel ${channelId} has no uploads playlist`);
+      return [];
+    }
+
+    const videoIds: string[] = [];
+    let pageToken: string | undefined;
+    try {
+      do {
+        const page = await api.playlistItems({
+          playlistId: uploadsPlaylistId,
+          maxResults: Math.min(MAX_PAGE_SIZE, maxVideos - videoIds.length),
+          pageToken
+        }, signal);
+        const pageIds = (page.items || [])
+          .map(item => item.contentDetails?.videoId || item.snippet?.resourceId?.videoId)
+          .filter(Boolean) as string[];
+        videoIds.push(...pageIds);
+        pageToken = pageIds.length > 0 ? page.nextPageToken : undefined;
+      } while (pageToken && videoIds.length < maxVideos);
+    } catch (error) {
+      // 没有任何公开视频的频道，上传列表返回404 playlistNotFound
+      if (error instanceof YouTubeApiError && error.status === 404) {
+        return [];
+      }
+      throw error;
+    }
+
+    if (videoIds.length === 0) {
+      return [];
+    }
+
+    return EntityStoreService.getVideos(api, videoIds, ['snippet', 'statistics'], signal);
+  }
 
   private calculateRelevanceScore(
     channelTitle: string,
@@ -714,7 +785,7 @@ export class YouTubeService {
       // 频道标题包含完整原始topic名称 - 最高优先级
       if (titleLower.includes(originalTopicLower)) {
         score += 20;
-        console.log(`🎯 Channel "${channelTitle}" contains original topic "${originalTopic}" - bonus +20`);
+        scoringLog.debug(`🎯 Channel "${channelTitle}" contains original topic "${originalTopic}" - bonus +20`);
       } else {
         // 频道标题包含原始topic中的重要词汇
         let wordMatches = 0;
@@ -726,7 +797,7 @@ export class YouTubeService {
         if (wordMatches > 0) {
           const wordBonus = Math.min(15, (wordMatches / originalWords.length) * 15);
           score += wordBonus;
-          console.log(`🎯 Channel "${channelTitle}" matches ${wordMatches}/${originalWords.length} topic words - bonus +${wordBonus.toFixed(1)}`);
+          scoringLog.debug(`🎯 Channel "${channelTitle}" matches ${wordMatches}/${originalWords.length} topic words - bonus +${wordBonus.toFixed(1)}`);
         }
       }
       
@@ -740,7 +811,7 @@ export class YouTubeService {
       if (videoTopicMatches > 0) {
         const videoBonus = Math.min(10, videoTopicMatches * 3);
         score += videoBonus;
-        console.log(`🎯 Channel has ${videoTopicMatches} videos about "${originalTopic}" - bonus +${videoBonus}`);
+        scoringLog.debug(`🎯 Channel has ${videoTopicMatches} videos about "${originalTopic}" - bonus +${videoBonus}`);
       }
     }
 
@@ -811,12 +882,44 @@ export class YouTubeService {
     return `${prefix}_${Math.abs(hash).toString(36)}`;
   }
 
+  // 只使用原始关键词进行搜索
+  static getVideoSearchModes(keyword: string): string[] {
+    return [
+      keyword // 只使用用户输入的原始关键词
+    ];
+  }
+
+  // findSimilarChannels 的请求构成：每个搜索词 search.list + channels.list，以及每个候选频道的上传列表（约2单位）
+  static planSimilarSearch(): SearchCostPlan {
+    return {
+      maxResults: SIMILAR_CHANNELS_PER_TERM * 2,
+      searchModes: SIMILAR_SEARCH_TERMS,
+      videoEnrichment: false,
+      channelEnrichment: true,
+      channelActivity: true,
+      channelsPerPage: SIMILAR_CHANNELS_PER_TERM
+    };
+  }
+
+  // searchVideos 的请求构成：每个搜索模式 search.list + videos.list + channels.list
+  static planVideoSearch(filters: SearchFilters): SearchCostPlan {
+    return {
+      maxResults: filters.maxResults,
+      searchModes: this.getVideoSearchModes('').length,
+      videoEnrichment: true,
+      channelEnrichment: true,
+      channelActivity: hasActivityFilter(filters)
+    };
+  }
+
   // 新方法：直接搜索视频（以视频为主体）
   async searchVideos(
     keywords: string[], 
     filters: SearchFilters,
-    originalTopic?: string
-  ): Promise<VideoResult[]> {
+    originalTopic?: string,
+    quotaBudget: number = Infinity,
+    signal?: AbortSignal
+  ): Promise<VideoSearchPage> {
     const {
       region = 'US',
       minSubscribers = 1000,
@@ -824,254 +927,320 @@ export class YouTubeService {
       maxResults = 50
     } = filters;
 
-    // 禁用缓存 - 每次都重新搜索以确保最新结果
-    console.log(`🔄 Cache disabled - performing fresh search for: ${keywords.join(', ')}`);
-    console.log(`🎯 Applied filters - Region: ${region}, Min Subscribers: ${minSubscribers}, Min Views: ${minViews}, Max Results: ${maxResults}`);
+    // 不缓存结果列表 - 每次都重新搜索以确保最新结果；视频/频道详情从实体缓存复用
+    log.info(`🔄 Performing fresh search for: ${keywords.join(', ')}`);
+    log.info(`🎯 Applied filters - Region: ${region}, Min Subscribers: ${minSubscribers}, Min Views: ${minViews}, Max Results: ${maxResults}`);
 
     try {
-      console.log(`🎥 Searching YouTube videos with keywords: ${keywords.join(', ')}`);
+      log.info(`🎥 Searching YouTube videos with keywords: ${keywords.join(', ')}`);
       if (originalTopic) {
-        console.log(`🎯 Original topic: "${originalTopic}" - prioritizing related videos`);
+        log.info(`🎯 Original topic: "${originalTopic}" - prioritizing related videos`);
       }
 
-      const allVideos = new Map<string, VideoResult>();
-
       // 对单个关键词进行多种搜索模式 - 扩展搜索以获得更多结果
-      for (const keyword of keywords.slice(0, 1)) { // 只处理第一个关键词（用户输入）
-        console.log(`🎯 Performing comprehensive video search for: "${keyword}"`);
-        
-        // 只使用原始关键词进行搜索
-        const searchModes = [
-          keyword // 只使用用户输入的原始关键词
-        ];
-        
-        for (const searchQuery of searchModes) {
-          try {
-            const videos = await this.searchVideosByKeyword(searchQuery, filters); // 传递完整的filters对象
-            
-            videos.forEach(video => {
-              if (!allVideos.has(video.videoId)) {
-                allVideos.set(video.videoId, video);
-              } else {
-                // Update relevance score if this video appears in multiple searches
-                const existing = allVideos.get(video.videoId)!;
-                existing.relevanceScore = Math.min(100, existing.relevanceScore + 15);
-              }
-            });
-          } catch (error) {
-            console.warn(`Failed to search for video query: ${searchQuery}`, error);
-          }
-        }
-      }
+      const cursors = keywords
+        .slice(0, 1) // 只处理第一个关键词（用户输入）
+        .flatMap(keyword => YouTubeService.getVideoSearchModes(keyword))
+        .map(query => ({ query }));
 
-      // 应用高级搜索过滤条件
-      let results = Array.from(allVideos.values())
-        .filter(video => {
-          // 应用最少播放量过滤
-          const meetsViewRequirement = video.viewCount >= minViews;
-          // 应用最少订阅数过滤（如果有频道订阅数信息）
-          const meetsSubscriberRequirement = !video.channel.subscriberCount || video.channel.subscriberCount >= minSubscribers;
-          
-          console.log(`🔍 Video "${video.title}" - Views: ${video.viewCount} (min: ${minViews}), Channel Subs: ${video.channel.subscriberCount} (min: ${minSubscribers}) - ${meetsViewRequirement && meetsSubscriberRequirement ? 'PASS' : 'FILTER OUT'}`);
-          
-          return meetsViewRequirement && meetsSubscriberRequirement;
-        });
+      return await this.collectVideos(cursors, filters, maxResults, maxResults, { remaining: quotaBudget }, signal);
+
+    } catch (error) {
+      if (isAbortError(error) || error instanceof YouTubeApiError) throw error;
+      log.error('YouTube video search error:', error);
+      throw new Error('Failed to search YouTube videos');
+    }
+  }
 
-      console.log(`📊 After applying filters: ${results.length} videos remain`);
+  // 加载更多：每个还有下一页的搜索查询从其pageToken继续取一页，不重复请求已获取的页
+  async loadMoreVideos(
+    nextPageTokens: Record<string, string>,
+    filters: SearchFilters,
+    quotaBudget: number = Infinity,
+    signal?: AbortSignal
+  ): Promise<VideoSearchPage> {
+    const cursors = Object.entries(nextPageTokens).map(([query, pageToken]) => ({ query, pageToken }));
+    log.info(`➕ Loading more videos for ${cursors.length} quer${cursors.length === 1 ? 'y' : 'ies'}`);
 
-      // Sort by relevance score and view count
-      results = results
-        .sort((a, b) => {
-          const relevanceDiff = b.relevanceScore - a.relevanceScore;
-          if (Math.abs(relevanceDiff) < 5) {
-            return b.viewCount - a.viewCount;
-          }
-          return relevanceDiff;
-        })
-        .slice(0, maxResults); // 使用用户指定的最大结果数
+    return this.collectVideos(cursors, filters, MAX_PAGE_SIZE, Infinity, { remaining: quotaBudget }, signal);
+  }
 
-      // 不再缓存结果 - 每次都重新搜索
-      console.log(`🔄 Skipping cache - returning fresh results`);
+  // 重试失败的查询：每个查询从其第一次失败的页重新开始
+  async retryFailedQueries(
+    cursors: Array<{ query: string; pageToken?: string }>,
+    filters: SearchFilters,
+    quotaBudget: number = Infinity,
+    signal?: AbortSignal
+  ): Promise<VideoSearchPage> {
+    log.info(`🔁 Retrying ${cursors.length} failed quer${cursors.length === 1 ? 'y' : 'ies'}`);
 
-      console.log(`Found ${results.length} videos matching criteria`);
-      return results;
+    return this.collectVideos(cursors, filters, filters.maxResults || 50, Infinity, { remaining: quotaBudget }, signal);
+  }
 
-    } catch (error) {
-      console.error('YouTube video search error:', error);
-      throw new Error('Failed to search YouTube videos');
+  private async collectVideos(
+    cursors: Array<{ query: string; pageToken?: string }>,
+    filters: SearchFilters,
+    targetPerQuery: number,
+    limit: number,
+    budget: { remaining: number },
+    signal?: AbortSignal
+  ): Promise<VideoSearchPage> {
+    const { minSubscribers = 1000, minViews = 10000, durationFilter = 'any', minLikeRate = 0, minCommentRate = 0, activeWithinDays, minUploadsPerMonth } = filters;
+    const allVideos = new Map<string, VideoResult>();
+    const nextPageTokens: Record<string, string> = {};
+    const recorder = new OutcomeRecorder();
+
+    for (const { query, pageToken } of cursors) {
+      log.info(`🎯 Performing comprehensive video search for: "${query}"`);
+
+      // 失败的阶段由recorder记录，已获取的页照常返回
+      const page = await this.searchVideosByKeyword(query, filters, targetPerQuery, budget, recorder, pageToken, signal); // 传递完整的filters对象
+
+      page.videos.forEach(video => {
+        if (!allVideos.has(video.videoId)) {
+          allVideos.set(video.videoId, video);
+        } else {
+          // Update relevance score if this video appears in multiple searches
+          const existing = allVideos.get(video.videoId)!;
+          existing.relevanceScore = Math.min(100, existing.relevanceScore + 15);
+        }
+      });
+
+      if (page.nextPageToken) {
+        nextPageTokens[query] = page.nextPageToken;
+      }
+    }
+
+    // 所有查询都失败且没有任何结果时抛出第一个错误，让界面按错误类型提示，而不是显示"没有结果"
+    if (allVideos.size === 0 && cursors.length > 0 && cursors.every(({ query }) => recorder.hasFailed(query))) {
+      throw recorder.getFirstError();
     }
+
+    // 应用高级搜索过滤条件
+    let results = Array.from(allVideos.values())
+      .filter(video => {
+        // 应用最少播放量过滤
+        const meetsViewRequirement = video.viewCount >= minViews;
+        // 应用最少订阅数过滤（如果有频道订阅数信息）
+        const meetsSubscriberRequirement = !video.channel.subscriberCount || video.channel.subscriberCount >= minSubscribers;
+        // 应用时长过滤（API的videoDuration无法精确区分的部分在这里补充筛选）
+        const meetsDurationRequirement = matchesDurationFilter(video.durationSeconds, durationFilter);
+        // 应用最低互动率过滤
+        const meetsEngagementRequirement = video.likeRate >= minLikeRate && video.commentRate >= minCommentRate;
+        // 应用发布频率（活跃度）过滤
+        const meetsActivityRequirement = matchesActivityFilter(video.channel.activity, filters);
+        const passes = meetsViewRequirement && meetsSubscriberRequirement && meetsDurationRequirement && meetsEngagementRequirement && meetsActivityRequirement;
+        
+        scoringLog.debug(`🔍 Video "${video.title}" - Views: ${video.viewCount} (min: ${minViews}), Channel Subs: ${video.channel.subscriberCount} (min: ${minSubscribers}), Duration: ${video.durationSeconds}s (${durationFilter}), Like Rate: ${(video.likeRate * 100).toFixed(2)}%, Comment Rate: ${(video.commentRate * 100).toFixed(2)}%, Last Upload: ${video.channel.activity?.daysSinceLastUpload ?? '-'}d ago (active within: ${activeWithinDays ?? '-'}), Uploads/Month: ${video.channel.activity ? video.channel.activity.uploadsPerMonth.toFixed(1) : '-'} (min: ${minUploadsPerMonth ?? '-'}) - ${passes ? 'PASS' : 'FILTER OUT'}`);
+        
+        return passes;
+      });
+
+    scoringLog.info(`📊 After applying filters: ${results.length} videos remain`);
+
+    // Sort by relevance score and view count
+    results = results
+      .sort((a, b) => {
+        const relevanceDiff = b.relevanceScore - a.relevanceScore;
+        if (Math.abs(relevanceDiff) < 5) {
+          return b.viewCount - a.viewCount;
+        }
+        return relevanceDiff;
+      })
+      .slice(0, limit); // 使用用户指定的最大结果数
+
+    // 不再缓存结果 - 每次都重新搜索
+    log.info(`Found ${results.length} videos matching criteria`);
+    return { videos: results, nextPageTokens, outcomes: recorder.getOutcomes() };
   }
 
+  // 按nextPageToken逐页收集，直到达到目标数量、没有下一页或配额预算不足
   private async searchVideosByKeyword(
     keyword: string, 
-    filters: SearchFilters
-  ): Promise<VideoResult[]> {
-    const { region = 'US', maxResults = 50 } = filters;
-    return this.executeWithRetry(async (apiKeyInfo) => {
-      // 直接搜索视频
-      const searchUrl = new URL('https://www.googleapis.com/youtube/v3/search');
-      searchUrl.searchParams.set('part', 'snippet');
-      searchUrl.searchParams.set('q', keyword);
-      searchUrl.searchParams.set('type', 'video');
-      searchUrl.searchParams.set('regionCode', region);
-      searchUrl.searchParams.set('maxResults', maxResults.toString()); // 使用传入的参数
-      searchUrl.searchParams.set('order', 'relevance');
-      searchUrl.searchParams.set('publishedAfter', new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString());
-      searchUrl.searchParams.set('key', apiKeyInfo.key);
-
-      console.log(`🔍 API调用 1/3: 搜索视频 - "${keyword}"`);
-      console.log(`📊 API配额消耗: 100 units (Search API)`);
-
-      const searchResponse = await fetch(searchUrl.toString(), {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-        },
-        mode: 'cors'
-      });
-      
-      if (!searchResponse.ok) {
-        const errorData = await searchResponse.json().catch(() => ({}));
-        throw {
-          status: searchResponse.status,
-          message: errorData?.error?.message || searchResponse.statusText,
-          details: errorData
-        };
+    filters: SearchFilters,
+    targetCount: number,
+    budget: { remaining: number },
+    recorder: OutcomeRecorder,
+    pageToken?: string,
+    signal?: AbortSignal
+  ): Promise<{ videos: VideoResult[]; nextPageToken?: string }> {
+    const { region = 'US', publishedAfter, publishedBefore, durationFilter } = filters;
+    const withActivity = hasActivityFilter(filters);
+    // 活跃度按一页的结果都来自不同频道计入（与 planVideoSearch 的预估一致）
+    const activityCost = withActivity ? Math.min(MAX_PAGE_SIZE, targetCount) * (QUOTA_COSTS.playlistItems + QUOTA_COSTS.videos) : 0;
+    const pageCost = QUOTA_COSTS.search + QUOTA_COSTS.videos + QUOTA_COSTS.channels + activityCost;
+    const videos: VideoResult[] = [];
+    let nextPageToken = pageToken;
+    let collected = 0;
+    let page = 0;
+
+    do {
+      if (budget.remaining < pageCost) {
+        log.info(`💰 Quota budget reached - stopping pagination for "${keyword}"`);
+        break;
       }
+      budget.remaining -= pageCost;
+      page++;
 
-      const searchData: YouTubeApiResponse = await searchResponse.json();
+      // 直接搜索视频
+      log.debug(`🔍 API调用 1/3: 搜索视频 - "${keyword}" (第${page}页)`);
 
-      if (!searchData.items) {
-        return [];
+      const currentPageToken = nextPageToken;
+      let searchData;
+      try {
+        searchData = await recorder.track(keyword, 'search', this.api, api => api.search({
+          q: keyword,
+          type: 'video',
+          regionCode: region,
+          maxResults: Math.min(MAX_PAGE_SIZE, targetCount - collected),
+          order: 'relevance',
+          publishedAfter,
+          publishedBefore,
+          videoDuration: getApiVideoDuration(durationFilter),
+          pageToken: currentPageToken
+        }, signal), currentPageToken);
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        log.warn(`Search page failed for "${keyword}" - keeping ${videos.length} videos from earlier pages`, error);
+        // 失败的页可以稍后从该页重试，这里不再返回下一页token
+        return { videos };
       }
 
-      // Extract video IDs
-      const videoIds = searchData.items
-        .map(item => item.id?.videoId)
-        .filter(Boolean) as string[];
+      const items = searchData.items || [];
+      nextPageToken = searchData.nextPageToken;
+      collected += items.length;
 
-      if (videoIds.length === 0) {
-        return [];
+      const pageVideos = await this.enrichSearchPage(items, keyword, recorder, withActivity, currentPageToken, signal);
+      if (!pageVideos) {
+        return { videos };
+      }
+      videos.push(...pageVideos);
+
+      if (items.length === 0) {
+        break;
       }
+    } while (nextPageToken && collected < targetCount);
 
-      // Get detailed video information
-      console.log(`🔍 API调用 2/3: 获取视频详情 - ${videoIds.length}个视频`);
-      console.log(`📊 API配额消耗: 1 unit (Videos API)`);
+    return { videos, nextPageToken };
+  }
 
-      const videosUrl = new URL('https://www.googleapis.com/youtube/v3/videos');
-      videosUrl.searchParams.set('part', 'snippet,statistics,contentDetails');
-      videosUrl.searchParams.set('id', videoIds.join(','));
-      videosUrl.searchParams.set('key', apiKeyInfo.key);
+  // 为一页搜索结果补充视频统计和频道信息（withActivity 时还有频道活跃度）；视频详情获取失败时返回 null（已由recorder记录）
+  private async enrichSearchPage(
+    items: YouTubeSearchItem[],
+    keyword: string,
+    recorder: OutcomeRecorder,
+    withActivity: boolean,
+    pageToken?: string,
+    signal?: AbortSignal
+  ): Promise<VideoResult[] | null> {
+    // Extract video IDs
+    const videoIds = items
+      .map(item => item.id?.videoId)
+      .filter(Boolean) as string[];
+
+    if (videoIds.length === 0) {
+      return [];
+    }
 
-      const videosResponse = await fetch(videosUrl.toString(), {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-        },
-        mode: 'cors'
-      });
+    // Get detailed video information
+    log.debug(`🔍 API调用 2/3: 获取视频详情 - ${videoIds.length}个视频`);
 
-      if (!videosResponse.ok) {
-        const errorData = await videosResponse.json().catch(() => ({}));
-        throw {
-          status: videosResponse.status,
-          message: errorData?.error?.message || videosResponse.statusText,
-          details: errorData
-        };
-      }
+    let videoItems: YouTubeVideoItem[];
+    try {
+      videoItems = await recorder.track(keyword, 'videoDetails', this.api,
+        api => EntityStoreService.getVideos(api, videoIds, ['snippet', 'statistics', 'contentDetails'], signal), pageToken);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      log.warn(`Video details failed for "${keyword}"`, error);
+      return null;
+    }
 
-      const videosData: YouTubeApiResponse = await videosResponse.json();
+    if (videoItems.length === 0) {
+      return [];
+    }
 
-      if (!videosData.items) {
-        return [];
+    // 优化：创建简化的频道映射，减少API调用
+    // 不单独获取频道信息，使用视频数据中已有的频道基本信息
+    const channelMap = new Map<string, YouTubeChannelItem>();
+    
+    // 获取频道详细信息以支持订阅数过滤
+    const uniqueChannelIds = [...new Set(
+      videoItems.map(video => video.snippet?.channelId).filter(Boolean) as string[]
+    )];
+    
+    if (uniqueChannelIds.length > 0) {
+      log.debug(`🔍 API调用 3/3: 获取频道详情 - ${uniqueChannelIds.length}个频道`);
+
+      try {
+        const channelItems = await recorder.track(keyword, 'channelDetails', this.api,
+          api => EntityStoreService.getChannels(api, uniqueChannelIds, withActivity
+            ? ['snippet', 'statistics', 'contentDetails'] // contentDetails 提供上传列表ID
+            : ['snippet', 'statistics'], signal), pageToken);
+        channelItems.forEach(channel => {
+          channelMap.set(channel.id, channel);
+        });
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        log.warn('频道API调用出错，使用基础信息:', error);
+      }
+    }
+    
+    // 活跃度由频道最近上传的视频计算；失败的频道没有活跃度数据，筛选时不排除
+    const activities = new Map<string, ChannelActivity>();
+    if (withActivity && uniqueChannelIds.length > 0) {
+      try {
+        await recorder.track(keyword, 'channelVideos', this.api, api => Promise.all(uniqueChannelIds.map(async channelId => {
+          const uploads = await this.channelVideoQueue.run(channelId, () => this.fetchChannelVideos(api, channelId, signal));
+          activities.set(channelId, this.toChannelActivity(uploads));
+        })), pageToken);
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        log.warn('频道上传列表获取出错，部分频道没有活跃度数据:', error);
       }
+    }
 
-      // 优化：创建简化的频道映射，减少API调用
-      // 不单独获取频道信息，使用视频数据中已有的频道基本信息
-      const channelMap = new Map<string, any>();
-      
-      // 获取频道详细信息以支持订阅数过滤
-      const uniqueChannelIds = [...new Set(videosData.items.map(video => video.snippet?.channelId).filter(Boolean))];
-      
-      if (uniqueChannelIds.length > 0) {
-        console.log(`🔍 API调用 3/3: 获取频道详情 - ${uniqueChannelIds.length}个频道`);
-        console.log(`📊 API配额消耗: 1 unit (Channels API)`);
-        
-        const channelsUrl = new URL('https://www.googleapis.com/youtube/v3/channels');
-        channelsUrl.searchParams.set('part', 'snippet,statistics');
-        channelsUrl.searchParams.set('id', uniqueChannelIds.join(','));
-        channelsUrl.searchParams.set('key', apiKeyInfo.key);
-
-        try {
-          const channelsResponse = await fetch(channelsUrl.toString(), {
-            method: 'GET',
-            headers: {
-              'Accept': 'application/json',
-              'Content-Type': 'application/json',
+    // 对没有获取到详细信息的频道，创建基础信息
+    videoItems.forEach(video => {
+      const channelId = video.snippet?.channelId;
+      if (channelId && !channelMap.has(channelId)) {
+        channelMap.set(channelId, {
+          id: channelId,
+          snippet: {
+            title: video.snippet?.channelTitle || 'Unknown Channel',
+            description: '',
+            thumbnails: {
+              medium: { url: '' }
             },
-            mode: 'cors'
-          });
-
-          if (channelsResponse.ok) {
-            const channelsData: YouTubeApiResponse = await channelsResponse.json();
-            if (channelsData.items) {
-              channelsData.items.forEach(channel => {
-                channelMap.set(channel.id, channel);
-              });
-            }
-          } else {
-            console.warn('频道API调用失败，使用基础信息');
+            country: 'Unknown'
+          },
+          statistics: {
+            subscriberCount: '0'
           }
-        } catch (error) {
-          console.warn('频道API调用出错，使用基础信息:', error);
-        }
+        });
       }
-      
-      // 对没有获取到详细信息的频道，创建基础信息
-      videosData.items.forEach(video => {
-        const channelId = video.snippet?.channelId;
-        if (channelId && !channelMap.has(channelId)) {
-          channelMap.set(channelId, {
-            id: channelId,
-            snippet: {
-              title: video.snippet?.channelTitle || 'Unknown Channel',
-              thumbnails: {
-                medium: { url: '' }
-              },
-              country: 'Unknown'
-            },
-            statistics: {
-              subscriberCount: '0'
-            }
-          });
-        }
-      });
-
-      console.log(`🎯 本次搜索总API消耗: 102 units (Search + Videos + Channels)`);
+    });
 
-      // Process videos into VideoResult format
-      const videos: VideoResult[] = [];
-      
-      for (const video of videosData.items) {
-        try {
-          const videoData = await this.processVideoData(video, channelMap, keyword);
-          if (videoData) {
-            videos.push(videoData);
-          }
-        } catch (error) {
-          console.warn(`Failed to process video ${video.id}:`, error);
+    // Process videos into VideoResult format
+    const videos: VideoResult[] = [];
+    
+    for (const video of videoItems) {
+      try {
+        const videoData = await this.processVideoData(video, channelMap, activities, keyword);
+        if (videoData) {
+          videos.push(videoData);
         }
+      } catch (error) {
+        log.warn(`Failed to process video ${video.id}:`, error);
       }
+    }
 
-      return videos;
-    });
+    return videos;
   }
 
   private async processVideoData(
-    video: any,
-    channelMap: Map<string, any>,
+    video: YouTubeVideoItem,
+    channelMap: Map<string, YouTubeChannelItem>,
+    activities: Map<string, ChannelActivity>,
     searchKeyword: string
   ): Promise<VideoResult | null> {
     try {
@@ -1091,6 +1260,14 @@ export class YouTubeService {
       const viewCount = parseInt(statistics.viewCount || '0');
       const likeCount = parseInt(statistics.likeCount || '0');
       const commentCount = parseInt(statistics.commentCount || '0');
+      const subscriberCount = parseInt(channelData.statistics?.subscriberCount || '0');
+
+      // 互动指标：分母为0时记为0，发布不足一天按一天计算
+      const daysSincePublished = Math.max(1, (Date.now() - new Date(snippet.publishedAt).getTime()) / (24 * 60 * 60 * 1000));
+      const likeRate = viewCount > 0 ? likeCount / viewCount : 0;
+      const commentRate = viewCount > 0 ? commentCount / viewCount : 0;
+      const viewsPerSubscriber = subscriberCount > 0 ? viewCount / subscriberCount : 0;
+      const viewsPerDay = Math.round(viewCount / (daysSincePublished || 1));
 
       // Calculate relevance score for this video
       const relevanceScore = this.calculateVideoRelevanceScore(
@@ -1107,60 +1284,42 @@ export class YouTubeService {
         likeCount,
         commentCount,
         duration: contentDetails?.duration || '',
+        durationSeconds: parseDuration(contentDetails?.duration || ''),
         thumbnailUrl: snippet.thumbnails?.medium?.url || snippet.thumbnails?.default?.url || '',
         videoUrl: `https://www.youtube.com/watch?v=${video.id}`,
         channel: {
           channelId: snippet.channelId,
           channelTitle: snippet.channelTitle || 'Unknown Channel',
           channelUrl: `https://www.youtube.com/channel/${snippet.channelId}`,
-          subscriberCount: parseInt(channelData.statistics?.subscriberCount || '0'),
+          subscriberCount,
           thumbnailUrl: channelData.snippet?.thumbnails?.medium?.url || '',
-          country: channelData.snippet?.country || 'Unknown'
+          country: channelData.snippet?.country || 'Unknown',
+          activity: activities.get(snippet.channelId)
         },
-        relevanceScore: Math.round(relevanceScore * 100)
+        relevanceScore: Math.round(relevanceScore * 100),
+        likeRate,
+        commentRate,
+        viewsPerSubscriber,
+        viewsPerDay
       };
 
     } catch (error) {
-      console.warn('Process video data error:', error);
+      log.warn('Process video data error:', error);
       return null;
     }
   }
 
   // 生成API key的安全哈希值用于缓存key
   private getApiKeyHash(): string {
-    const apiKeyInfo = this.getCurrentApiKey();
+    const apiKeyInfo = this.api.getCurrentKey();
     if (!apiKeyInfo) {
       return 'no_key';
     }
     // 使用API key的前8位和后4位创建唯一标识，避免泄露完整key
-    return `${apiKeyInfo.key.substring(0, 8)}_${apiKeyInfo.key.slice(-4)}`;
-  }
-
-  private getFromCache(key: string): any {
-    try {
-      const cached = localStorage.getItem(key);
-      if (!cached) return null;
-
-      const { data, expiry } = JSON.parse(cached);
-      if (Date.now() > expiry) {
-        localStorage.removeItem(key);
-        return null;
-      }
-
-      return data;
-    } catch (error) {
-      console.error('Cache get error:', error);
-      return null;
-    }
-  }
-
-  private setCache(key: string, data: any, ttlMs: number): void {
-    try {
-      const expiry = Date.now() + ttlMs;
-      localStorage.setItem(key, JSON.stringify({ data, expiry }));
-    } catch (error) {
-      console.error('Cache set error:', error);
-    }
+    // 非真实API的传输方式单独缓存，避免mock/fixture数据混入真实结果
+    const mode = YouTubeTransportService.getMode();
+    const keyHash = `${apiKeyInfo.key.substring(0, 8)}_${apiKeyInfo.key.slice(-4)}`;
+    return mode === 'live' ? keyHash : `${mode}_${keyHash}`;
   }
 
   // 关键词优先级排序 - 包含原始产品名称的关键词优先
@@ -1202,7 +1361,7 @@ export class YouTubeService {
       .sort((a, b) => b.score - a.score)
       .map(item => item.keyword);
     
-    console.log(`🎯 Keyword prioritization for "${originalTopic}":`, 
+    scoringLog.info(`🎯 Keyword prioritization for "${originalTopic}":`, 
       sortedKeywords.map((kw, i) => `${i + 1}. ${kw} (score: ${keywordScores.find(k => k.keyword === kw)?.score})`));
     
     return sortedKeywords;
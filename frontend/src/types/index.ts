@@ -5,6 +5,13 @@ export interface SearchRequest {
     minSubscribers?: number;
     minViews?: number;
     maxResults?: number;
+    publishedAfter?: string;
+    publishedBefore?: string;
+    durationFilter?: VideoDurationFilter;
+    minLikeRate?: number;
+    minCommentRate?: number;
+    activeWithinDays?: number;
+    minUploadsPerMonth?: number;
   };
 }
 
@@ -13,6 +20,27 @@ export interface SearchResponse {
   results: VideoResult[];
   expandedKeywords: string[];
   totalFound: number;
+  // 每个搜索查询的下一页token，用于"加载更多"
+  nextPageTokens?: Record<string, string>;
+  // 每个搜索查询各阶段的执行结果，用于提示部分失败并只重试失败的查询
+  outcomes: SearchOutcome[];
+  // 部分搜索查询失败时的说明，其余查询的结果仍然返回
+  partialFailure?: AppError;
+}
+
+// 一次搜索查询经过的阶段：搜索列表 → 视频详情 → 频道详情（频道模式下还有频道视频，链接模式下先解析链接）
+export type SearchStage = 'search' | 'videoDetails' | 'channelDetails' | 'channelVideos' | 'resolve';
+
+export interface SearchOutcome {
+  query: string;
+  stage: SearchStage;
+  status: 'success' | 'failure';
+  attempts: number; // 该阶段的执行次数（每页/每个频道一次）
+  failures: number;
+  quotaSpent: number;
+  errorKind?: AppErrorKind;
+  errorMessage?: string;
+  retryPageToken?: string; // 重试时从该页开始（undefined 表示从第一页开始）
 }
 
 // 新的视频结果结构 - 以视频为主体
@@ -25,6 +53,7 @@ export interface VideoResult {
   likeCount: number;
   commentCount: number;
   duration: string;
+  durationSeconds: number; // 由 ISO 8601 duration 解析得到
   thumbnailUrl: string;
   videoUrl: string;
   // 关联的频道信息
@@ -35,8 +64,14 @@ export interface VideoResult {
     subscriberCount: number;
     thumbnailUrl: string;
     country?: string;
+    activity?: ChannelActivity; // 设置了活跃度筛选时才获取
   };
   relevanceScore: number;
+  // 互动指标（比率均为小数，如 0.035 表示 3.5%）
+  likeRate: number; // 点赞数 / 播放量
+  commentRate: number; // 评论数 / 播放量
+  viewsPerSubscriber: number; // 播放量 / 频道订阅数
+  viewsPerDay: number; // 发布以来日均播放量
 }
 
 // 保留原有的结构作为兼容性
@@ -51,6 +86,110 @@ export interface InfluencerResult {
   country: string;
   recentVideos: RecentVideo[];
   relevanceScore: number;
+  // 由视频结果按频道聚合时存在，只统计本次匹配到的视频
+  matchStats?: ChannelMatchStats;
+  // "相似创作者"搜索的结果才有，说明与种子频道的相似之处
+  similarity?: ChannelSimilarity;
+  // 由频道最近上传的视频计算，获取失败时不存在
+  activity?: ChannelActivity;
+}
+
+// 频道活跃度：由最近上传的视频（最多50个）的发布时间计算
+export interface ChannelActivity {
+  uploadsLast30Days: number;
+  uploadsLast90Days: number;
+  uploadsPerMonth: number; // 最近90天的平均月上传数；样本被截断时按样本覆盖的时间段估算
+  sampleCapped: boolean; // 样本已满且最早的视频仍在90天内，30/90天的数量只是下限
+  daysSinceLastUpload: number | null; // 没有公开视频时为 null
+  medianGapDays: number | null; // 相邻两次上传间隔的中位数，少于两个视频时为 null
+}
+
+export interface ChannelSimilarity {
+  seedChannelId: string;
+  sharedTerms: string[]; // 与种子频道共有的标题/标签词
+  bandDistance: number; // 订阅量级相差几档（0 表示同一档）
+}
+
+// 相似创作者搜索：从种子频道的视频中挖掘搜索词，结果不含种子频道和已有结果中的频道
+export interface SimilarCreatorsResponse {
+  seed: InfluencerResult;
+  searchTerms: string[];
+  results: InfluencerResult[];
+  outcomes: SearchOutcome[];
+  partialFailure?: AppError;
+}
+
+// 频道链接模式：每个能解析的链接对应一个频道结果（多个链接指向同一频道时只有一个结果）
+export interface ChannelLinkResponse {
+  results: InfluencerResult[];
+  resolved: ResolvedLink[];
+  unresolved: UnresolvedLink[];
+  outcomes: SearchOutcome[];
+}
+
+export interface ResolvedLink {
+  input: string;
+  channelId: string;
+}
+
+export interface UnresolvedLink {
+  input: string;
+  reason: string;
+}
+
+// 批量导入的创作者列表（上传的CSV或粘贴的链接），保留原始列用于导出
+export interface CreatorImport {
+  fileName?: string;
+  headers: string[];
+  rows: string[][];
+  linkColumn: number; // 频道链接所在列
+}
+
+export interface CreatorImportResult {
+  source: CreatorImport;
+  rows: EnrichedImportRow[]; // 与 source.rows 一一对应
+  results: InfluencerResult[]; // 去重后的频道结果
+  outcomes: SearchOutcome[];
+}
+
+export interface EnrichedImportRow {
+  values: string[]; // 原始列的值
+  influencer?: InfluencerResult;
+  error?: string; // 无法解析时的原因
+}
+
+// 频道详情抽屉：打开时才加载的完整频道资料和最近上传的视频
+export interface ChannelProfile {
+  channelId: string;
+  channelTitle: string;
+  channelUrl: string;
+  thumbnailUrl: string;
+  description: string;
+  customUrl?: string;
+  publishedAt: string; // 频道创建时间
+  subscriberCount: number;
+  viewCount: number;
+  videoCount: number;
+  country: string;
+  uploads: ChannelUpload[]; // 最近上传的视频，按发布时间从新到旧
+  activity: ChannelActivity;
+}
+
+export interface ChannelUpload {
+  videoId: string;
+  title: string;
+  publishedAt: string;
+  viewCount: number;
+  likeCount: number;
+  commentCount: number;
+  thumbnailUrl: string;
+}
+
+export interface ChannelMatchStats {
+  videoCount: number;
+  totalViews: number;
+  medianViews: number;
+  bestVideo: RecentVideo;
 }
 
 export interface RecentVideo {
@@ -79,14 +218,62 @@ export interface ApiResponse<T> {
   };
 }
 
+// 服务层产生、界面按 kind 展示的错误类型
+export type AppErrorKind =
+  | 'QuotaExceeded'
+  | 'KeyInvalid'
+  | 'ApiNotEnabled'
+  | 'RateLimited'
+  | 'Network'
+  | 'BadRequest'
+  | 'PartialFailure'
+  | 'Unknown';
+
+interface AppErrorBase {
+  message: string; // 面向用户的说明
+  status?: number; // 来自HTTP响应时的状态码
+  details?: unknown; // 原始错误数据，用于调试
+}
+
+export type AppError =
+  | (AppErrorBase & { kind: Exclude<AppErrorKind, 'PartialFailure'> })
+  | (AppErrorBase & {
+      kind: 'PartialFailure';
+      failedQueries: string[];
+      totalQueries: number;
+      causes: AppError[];
+    });
+
 export interface SearchFilters {
   region: string;
   minSubscribers: number;
   minViews: number;
   maxResults: number;
+  // 发布时间窗口（RFC 3339），不设置则不限制
+  publishedAfter?: string;
+  publishedBefore?: string;
+  durationFilter?: VideoDurationFilter;
+  // 最低互动率（小数），不设置则不限制
+  minLikeRate?: number;
+  minCommentRate?: number;
+  // 发布频率（活跃度），不设置则不限制；设置后每个频道额外获取上传列表（约2单位）
+  activeWithinDays?: number; // 最近N天内有上传
+  minUploadsPerMonth?: number; // 平均每月至少N个上传（见 ChannelActivity.uploadsPerMonth）
 }
 
+// 视频时长分类：Shorts(≤60秒) / 中视频(≤20分钟) / 长视频(>20分钟)
+export type VideoDurationFilter = 'any' | 'shorts' | 'medium' | 'long';
+
 export type SortOption = 'relevance' | 'subscribers' | 'views' | 'recent';
 
 // 新的视频排序选项
-export type VideoSortOption = 'relevance' | 'viewCount' | 'publishedAt' | 'likeCount' | 'duration';
\ No newline at end of file
+export type VideoSortOption =
+  | 'relevance'
+  | 'viewCount'
+  | 'publishedAt'
+  | 'likeCount'
+  | 'duration'
+  | 'likeRate'
+  | 'commentRate'
+  | 'viewsPerSubscriber'
+  | 'viewsPerDay';
\ No newline at end of file
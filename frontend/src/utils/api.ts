@@ -1,55 +1,93 @@
-import type { SearchRequest, SearchResponse, InfluencerResult, SearchFilters, VideoResult } from '../types';
-import { YouTubeService } from '../services/youtube.service';
+import type {
+  AppError,
+  ChannelActivity,
+  ChannelLinkResponse,
+  ChannelProfile,
+  CreatorImport,
+  CreatorImportResult,
+  SearchRequest,
+  SearchResponse,
+  SimilarCreatorsResponse,
+  InfluencerResult,
+  SearchFilters,
+  VideoResult
+} from '../types';
+import { YouTubeService, type SimilarChannelsResult } from '../services/youtube.service';
 import { SettingsService } from '../services/settings.service';
+import { KeyHealthService } from '../services/key-health.service';
+import { QuotaService, type QuotaEstimate } from '../services/quota.service';
+import { isAbortError } from '../services/youtube-api.service';
+import { RetryService } from '../services/retry.service';
+import { toAppError } from './errors';
+import { getPartialFailure, getRetryCursors, mergeOutcomes } from './searchOutcomes';
+import { formatUploadCount } from './uploadActivity';
+import { createLogger } from '../services/logger.service';
 
+const log = createLogger('app');
+
+// 界面层收到的错误：code 标识出错的操作，error 按 kind 描述原因
 export class ApiError extends Error {
   public code: string;
-  public statusCode: number;
-  public details?: any;
-  public userMessage?: string;
-  
-  constructor(
-    code: string,
-    message: string,
-    statusCode: number = 500,
-    details?: any,
-    userMessage?: string
-  ) {
-    super(message);
+  public error: AppError;
+
+  constructor(code: string, error: AppError) {
+    super(error.message);
     this.name = 'ApiError';
     this.code = code;
-    this.statusCode = statusCode;
-    this.details = details;
-    this.userMessage = userMessage;
+    this.error = error;
   }
 }
 
+const ACTIVITY_HEADERS = [
+  'Uploads (30 Days)',
+  'Uploads (90 Days)',
+  'Uploads / Month',
+  'Days Since Last Upload',
+  'Median Upload Gap (Days)'
+];
+
+const MISSING_KEY_ERROR: AppError = {
+  kind: 'KeyInvalid',
+  message: '🔑 没有可用的YouTube API密钥，请在设置中添加API密钥。'
+};
+
 export const api = {
-  async searchInfluencers(request: SearchRequest): Promise<SearchResponse> {
-    console.log(`🔧 Checking API Keys...`);
+  async searchInfluencers(request: SearchRequest, signal?: AbortSignal): Promise<SearchResponse> {
+    log.info(`🔧 Checking API Keys...`);
     
+    // 如果已进入新的配额周期，先恢复已用尽的key
+    KeyHealthService.recoverExhaustedKeys();
+
     if (!SettingsService.hasRequiredKeys()) {
-      throw new ApiError('MISSING_YOUTUBE_KEY', 'No active YouTube API keys available. Please add API keys in Settings.');
+      throw new ApiError('MISSING_YOUTUBE_KEY', MISSING_KEY_ERROR);
+    }
+
+    const searchFilters = this.buildSearchFilters(request);
+
+    // 预估配额消耗，配额池不足时不发起搜索
+    const estimate = this.estimateSearchQuota(searchFilters);
+    if (estimate.status === 'blocked') {
+      const userMessage = `🚫 本次搜索预计消耗 ${estimate.units} 配额单位，超过所有可用Key的剩余配额 (${estimate.remaining})。请减少最大结果数或添加更多API Key。`;
+      throw new ApiError('QUOTA_INSUFFICIENT', { kind: 'QuotaExceeded', message: userMessage, details: estimate });
     }
 
+    // 每次搜索使用新的重试预算
+    RetryService.resetBudget();
+
     try {
-      console.log(`🎯 Direct search for: "${request.topic}"`);
+      log.info(`🎯 Direct search for: "${request.topic}"`);
 
       // 使用新的多key YouTube服务
       const youtubeService = new YouTubeService();
-      const searchFilters: SearchFilters = {
-        region: request.filters.region || 'US',
-        minSubscribers: request.filters.minSubscribers || 1000,
-        minViews: request.filters.minViews || 10000,
-        maxResults: request.filters.maxResults || 50
-      };
       
       // 使用用户输入的机型作为直接搜索关键词，搜索视频
       const directKeywords = [request.topic];
-      const videos = await youtubeService.searchVideos(
+      const { videos, nextPageTokens, outcomes } = await youtubeService.searchVideos(
         directKeywords,
         searchFilters,
-        request.topic
+        request.topic,
+        estimate.units, // 翻页不超过预估的配额消耗
+        signal
       );
 
       // Generate search ID for potential future use
@@ -59,71 +97,321 @@ export const api = {
         searchId,
         results: videos,
         expandedKeywords: directKeywords, // 直接返回用户输入作为"扩展"关键词
-        totalFound: videos.length
+        totalFound: videos.length,
+        nextPageTokens,
+        outcomes,
+        partialFailure: getPartialFailure(outcomes)
       };
 
-      console.log(`Direct video search completed successfully. Found ${videos.length} videos`);
+      log.info(`Direct video search completed successfully. Found ${videos.length} videos`);
       return response;
 
     } catch (error) {
-      console.error('Search influencers error:', error);
+      // 取消不是错误，原样抛出由调用方忽略
+      if (isAbortError(error)) throw error;
+
+      log.error('Search influencers error:', error);
       
       if (error instanceof ApiError) {
         throw error;
       }
-      
-      // Handle specific API errors with detailed information
-      if (error instanceof Error && (error as any).status) {
-        const status = (error as any).status;
-        const userMessage = (error as any).userMessage;
-        const details = (error as any).details;
-        
-        throw new ApiError(
-          `API_ERROR_${status}`,
-          userMessage || error.message,
-          status,
-          details,
-          userMessage
-        );
-      }
-      
-      if (error instanceof Error) {
-        if (error.message.includes('401') || error.message.includes('Unauthorized')) {
-          throw new ApiError('INVALID_API_KEY', 'Invalid API key. Please check your settings.', 401);
-        }
-        
-        if (error.message.includes('403') || error.message.includes('quota')) {
-          throw new ApiError('API_QUOTA_EXCEEDED', 'API quota exceeded. Please try again later.', 403);
-        }
-        
-        if (error.message.includes('429')) {
-          throw new ApiError('RATE_LIMITED', 'Rate limit exceeded. Please wait a moment and try again.', 429);
-        }
+
+      throw new ApiError('SEARCH_ERROR', toAppError(error, 'Failed to search influencers. Please try again.'));
+    }
+  },
+
+  // 加载更多：从上次停止的页继续，把新结果追加到当前SearchResponse
+  async loadMoreResults(request: SearchRequest, current: SearchResponse, signal?: AbortSignal): Promise<SearchResponse> {
+    if (!current.nextPageTokens || Object.keys(current.nextPageTokens).length === 0) {
+      return current;
+    }
+
+    KeyHealthService.recoverExhaustedKeys();
+    if (!SettingsService.hasRequiredKeys()) {
+      throw new ApiError('MISSING_YOUTUBE_KEY', MISSING_KEY_ERROR);
+    }
+
+    // 每次加载更多使用新的重试预算，不沿用上次搜索剩下的
+    RetryService.resetBudget();
+
+    try {
+      const youtubeService = new YouTubeService();
+      const { videos, nextPageTokens, outcomes } = await youtubeService.loadMoreVideos(
+        current.nextPageTokens,
+        this.buildSearchFilters(request),
+        QuotaService.getPoolRemaining().remaining,
+        signal
+      );
+
+      const existingIds = new Set(current.results.map(video => video.videoId));
+      const newVideos = videos.filter(video => !existingIds.has(video.videoId));
+      const results = [...current.results, ...newVideos];
+
+      log.info(`➕ Loaded ${newVideos.length} more videos (total ${results.length})`);
+      const mergedOutcomes = mergeOutcomes(current.outcomes, outcomes);
+      return {
+        ...current,
+        results,
+        totalFound: results.length,
+        nextPageTokens,
+        outcomes: mergedOutcomes,
+        partialFailure: getPartialFailure(mergedOutcomes)
+      };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      log.error('Load more results error:', error);
+      throw new ApiError('LOAD_MORE_ERROR', toAppError(error, 'Failed to load more results. Please try again.'));
+    }
+  },
+
+  // 只重试失败的查询，新结果合并到当前SearchResponse
+  async retryFailedQueries(request: SearchRequest, current: SearchResponse, signal?: AbortSignal): Promise<SearchResponse> {
+    const cursors = getRetryCursors(current.outcomes);
+    if (cursors.length === 0) {
+      return current;
+    }
+
+    KeyHealthService.recoverExhaustedKeys();
+    if (!SettingsService.hasRequiredKeys()) {
+      throw new ApiError('MISSING_YOUTUBE_KEY', MISSING_KEY_ERROR);
+    }
+
+    // 每次重试使用新的重试预算，不沿用上次搜索剩下的
+    RetryService.resetBudget();
+
+    try {
+      const youtubeService = new YouTubeService();
+      const { videos, nextPageTokens, outcomes } = await youtubeService.retryFailedQueries(
+        cursors,
+        this.buildSearchFilters(request),
+        QuotaService.getPoolRemaining().remaining,
+        signal
+      );
+
+      const existingIds = new Set(current.results.map(video => video.videoId));
+      const newVideos = videos.filter(video => !existingIds.has(video.videoId));
+      const results = [...current.results, ...newVideos];
+
+      // 重试的查询使用新的下一页token
+      const mergedTokens = { ...current.nextPageTokens };
+      cursors.forEach(({ query }) => {
+        delete mergedTokens[query];
+      });
+      const mergedOutcomes = mergeOutcomes(current.outcomes, outcomes);
+
+      log.info(`🔁 Retry recovered ${newVideos.length} videos (total ${results.length})`);
+      return {
+        ...current,
+        results,
+        totalFound: results.length,
+        nextPageTokens: { ...mergedTokens, ...nextPageTokens },
+        outcomes: mergedOutcomes,
+        partialFailure: getPartialFailure(mergedOutcomes)
+      };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      log.error('Retry failed queries error:', error);
+      throw new ApiError('RETRY_ERROR', toAppError(error, 'Failed to retry the failed searches. Please try again.'));
+    }
+  },
+
+  // 频道链接模式：每个链接解析出一个频道（每个链接约消耗2-5配额单位）
+  async resolveChannelLinks(links: string[], topic?: string, signal?: AbortSignal): Promise<ChannelLinkResponse> {
+    KeyHealthService.recoverExhaustedKeys();
+
+    if (!SettingsService.hasRequiredKeys()) {
+      throw new ApiError('MISSING_YOUTUBE_KEY', MISSING_KEY_ERROR);
+    }
+    if (links.length === 0) {
+      throw new ApiError('NO_LINKS', { kind: 'BadRequest', message: '请至少输入一个频道或视频链接。' });
+    }
+
+    RetryService.resetBudget();
+
+    try {
+      return await new YouTubeService().resolveChannelLinks(links, topic, signal);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+
+      log.error('Resolve channel links error:', error);
+      throw new ApiError('RESOLVE_ERROR', toAppError(error, 'Failed to resolve channel links. Please try again.'));
+    }
+  },
+
+  // 批量导入：逐行解析链接列并补充频道数据，同一频道只请求一次；无法解析的行带原因返回
+  async importCreators(source: CreatorImport, topic?: string, signal?: AbortSignal): Promise<CreatorImportResult> {
+    const links = source.rows.map(row => (row[source.linkColumn] || '').trim());
+    const uniqueLinks = [...new Set(links.filter(Boolean))];
+    if (uniqueLinks.length === 0) {
+      throw new ApiError('NO_LINKS', { kind: 'BadRequest', message: `"${source.headers[source.linkColumn]}" 列中没有可用的链接。` });
+    }
+
+    const response = await this.resolveChannelLinks(uniqueLinks, topic, signal);
+    const channelIdByInput = new Map(response.resolved.map(link => [link.input, link.channelId]));
+    const reasonByInput = new Map(response.unresolved.map(link => [link.input, link.reason]));
+    const resultByChannel = new Map(response.results.map(result => [result.channelId, result]));
+
+    const rows = source.rows.map((values, index) => {
+      const link = links[index];
+      if (!link) {
+        return { values, error: '缺少链接' };
       }
-      
-      throw new ApiError('SEARCH_ERROR', 'Failed to search influencers. Please try again.', 500);
+      const channelId = channelIdByInput.get(link);
+      const influencer = channelId ? resultByChannel.get(channelId) : undefined;
+      return influencer
+        ? { values, influencer }
+        : { values, error: reasonByInput.get(link) || '频道数据获取失败' };
+    });
+
+    log.info(`📥 Imported ${rows.filter(row => row.influencer).length}/${rows.length} rows from ${source.fileName || 'pasted list'}`);
+    return { source, rows, results: response.results, outcomes: response.outcomes };
+  },
+
+  // 相似创作者：request 为当前搜索条件（沿用地区、最低订阅数和最大结果数），excludeChannelIds 为界面上已有的频道
+  async findSimilarCreators(
+    seed: InfluencerResult,
+    excludeChannelIds: string[],
+    request?: SearchRequest,
+    signal?: AbortSignal
+  ): Promise<SimilarCreatorsResponse> {
+    KeyHealthService.recoverExhaustedKeys();
+    if (!SettingsService.hasRequiredKeys()) {
+      throw new ApiError('MISSING_YOUTUBE_KEY', MISSING_KEY_ERROR);
+    }
+
+    const estimate = QuotaService.checkSearchBudget(YouTubeService.planSimilarSearch());
+    if (estimate.status === 'blocked') {
+      const userMessage = `🚫 查找相似创作者预计消耗 ${estimate.units} 配额单位，超过所有可用Key的剩余配额 (${estimate.remaining})。`;
+      throw new ApiError('QUOTA_INSUFFICIENT', { kind: 'QuotaExceeded', message: userMessage, details: estimate });
+    }
+
+    RetryService.resetBudget();
+
+    // 频道级别的搜索，发布时间窗口和视频互动率条件不适用；活跃度条件照常生效
+    const { region, minSubscribers, maxResults, activeWithinDays, minUploadsPerMonth } = this.buildSearchFilters(request || { topic: '', filters: {} });
+
+    let result: SimilarChannelsResult;
+    try {
+      result = await new YouTubeService().findSimilarChannels(
+        seed,
+        excludeChannelIds,
+        { region, minSubscribers, minViews: 0, maxResults, activeWithinDays, minUploadsPerMonth },
+        signal
+      );
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      log.error('Find similar creators error:', error);
+      throw new ApiError('SIMILAR_ERROR', toAppError(error, 'Failed to find similar creators. Please try again.'));
+    }
+
+    if (result.searchTerms.length === 0) {
+      throw new ApiError('NO_TERMS', {
+        kind: 'BadRequest',
+        message: `「${seed.channelTitle}」最近的视频标题和标签中没有足够的共同话题，无法查找相似创作者。`
+      });
+    }
+
+    return {
+      seed,
+      searchTerms: result.searchTerms,
+      results: result.influencers,
+      outcomes: result.outcomes,
+      partialFailure: getPartialFailure(result.outcomes)
+    };
+  },
+
+  // 频道详情抽屉打开时加载（约3配额单位）
+  async getChannelProfile(channelId: string, signal?: AbortSignal): Promise<ChannelProfile> {
+    KeyHealthService.recoverExhaustedKeys();
+    if (!SettingsService.hasRequiredKeys()) {
+      throw new ApiError('MISSING_YOUTUBE_KEY', MISSING_KEY_ERROR);
+    }
+
+    let profile: ChannelProfile | null;
+    try {
+      profile = await new YouTubeService().getChannelProfile(channelId, signal);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      log.error('Load channel profile error:', error);
+      throw new ApiError('CHANNEL_PROFILE_ERROR', toAppError(error, 'Failed to load channel details. Please try again.'));
+    }
+
+    if (!profile) {
+      throw new ApiError('CHANNEL_NOT_FOUND', { kind: 'BadRequest', message: '频道不存在或不可访问。' });
     }
+    return profile;
+  },
+
+  buildSearchFilters(request: SearchRequest): SearchFilters {
+    return {
+      region: request.filters.region || 'US',
+      minSubscribers: request.filters.minSubscribers || 1000,
+      minViews: request.filters.minViews || 10000,
+      maxResults: request.filters.maxResults || 50,
+      publishedAfter: request.filters.publishedAfter,
+      publishedBefore: request.filters.publishedBefore,
+      durationFilter: request.filters.durationFilter,
+      minLikeRate: request.filters.minLikeRate,
+      minCommentRate: request.filters.minCommentRate,
+      activeWithinDays: request.filters.activeWithinDays,
+      minUploadsPerMonth: request.filters.minUploadsPerMonth
+    };
+  },
+
+  estimateSearchQuota(filters: SearchFilters): QuotaEstimate {
+    return QuotaService.checkSearchBudget(YouTubeService.planVideoSearch(filters));
   },
 
   async expandKeywords(topic: string): Promise<{ expandedKeywords: string[] }> {
     // 简化版本：直接返回用户输入，不再进行AI扩展
-    console.log(`🎯 Direct keyword expansion for: "${topic}"`);
+    log.info(`🎯 Direct keyword expansion for: "${topic}"`);
     return {
       expandedKeywords: [topic]
     };
   },
 
   async exportToCsv(results: VideoResult[]): Promise<Blob> {
-    try {
-      if (!results || results.length === 0) {
-        throw new ApiError('NO_DATA', 'No data to export');
-      }
+    if (!results || results.length === 0) {
+      throw new ApiError('NO_DATA', { kind: 'BadRequest', message: 'No data to export' });
+    }
 
+    try {
       const csv = this.generateVideoCsv(results);
       return new Blob([csv], { type: 'text/csv;charset=utf-8;' });
     } catch (error) {
-      console.error('Export CSV error:', error);
-      throw new ApiError('EXPORT_ERROR', 'Failed to export data');
+      log.error('Export CSV error:', error);
+      throw new ApiError('EXPORT_ERROR', toAppError(error, 'Failed to export data'));
+    }
+  },
+
+  async exportInfluencersToCsv(results: InfluencerResult[]): Promise<Blob> {
+    if (!results || results.length === 0) {
+      throw new ApiError('NO_DATA', { kind: 'BadRequest', message: 'No data to export' });
+    }
+
+    try {
+      return new Blob([this.generateCsv(results)], { type: 'text/csv;charset=utf-8;' });
+    } catch (error) {
+      log.error('Export CSV error:', error);
+      throw new ApiError('EXPORT_ERROR', toAppError(error, 'Failed to export data'));
+    }
+  },
+
+  // 导入的列表按原始行导出：原始列在前，补充的频道数据在后，无法解析的行保留原因
+  async exportImportToCsv(imported: CreatorImportResult): Promise<Blob> {
+    if (imported.rows.length === 0) {
+      throw new ApiError('NO_DATA', { kind: 'BadRequest', message: 'No data to export' });
+    }
+
+    try {
+      const csv = this.generateCsv(imported.rows.map(row => row.influencer), {
+        headers: [...imported.source.headers, 'Import Status'],
+        rows: imported.rows.map(row => [...row.values, row.error || 'resolved'])
+      });
+      return new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+    } catch (error) {
+      log.error('Export CSV error:', error);
+      throw new ApiError('EXPORT_ERROR', toAppError(error, 'Failed to export data'));
     }
   },
 
@@ -142,11 +430,17 @@ export const api = {
       'Like Count',
       'Comment Count',
       'Duration',
+      'Duration (Seconds)',
+      'Like Rate (%)',
+      'Comment Rate (%)',
+      'Views per Subscriber',
+      'Views per Day',
       'Relevance Score',
       'Channel Name',
       'Channel URL',
       'Channel Subscribers',
-      'Channel Country'
+      'Channel Country',
+      ...ACTIVITY_HEADERS
     ];
 
     // CSV rows
@@ -160,11 +454,17 @@ export const api = {
         result.likeCount || 0,
         result.commentCount || 0,
         result.duration || '',
+        result.durationSeconds || 0,
+        ((result.likeRate || 0) * 100).toFixed(2),
+        ((result.commentRate || 0) * 100).toFixed(2),
+        (result.viewsPerSubscriber || 0).toFixed(2),
+        result.viewsPerDay || 0,
         result.relevanceScore || 0,
         this.escapeCsvValue(result.channel.channelTitle || ''),
         result.channel.channelUrl || '',
         result.channel.subscriberCount || 0,
-        result.channel.country || ''
+        result.channel.country || '',
+        ...this.activityCsvValues(result.channel.activity)
       ];
     });
 
@@ -176,8 +476,25 @@ export const api = {
     return csvContent;
   },
 
-  // 保留原有的方法以便兼容性
-  generateCsv(results: InfluencerResult[]): string {
+  // 没有活跃度数据（未设置活跃度筛选或获取失败）时留空
+  activityCsvValues(activity?: ChannelActivity): Array<string | number> {
+    if (!activity) {
+      return ACTIVITY_HEADERS.map(() => '');
+    }
+    return [
+      formatUploadCount(activity.uploadsLast30Days, activity),
+      formatUploadCount(activity.uploadsLast90Days, activity),
+      activity.uploadsPerMonth.toFixed(1),
+      activity.daysSinceLastUpload ?? '',
+      activity.medianGapDays !== null ? activity.medianGapDays.toFixed(1) : ''
+    ];
+  },
+
+  // 频道结果的导出；提供 originalColumns 时每行前面保留导入文件的原始列，未解析的行频道数据留空
+  generateCsv(
+    results: Array<InfluencerResult | undefined>,
+    originalColumns?: { headers: string[]; rows: string[][] }
+  ): string {
     if (results.length === 0) {
       return 'No data to export';
     }
@@ -196,11 +513,15 @@ export const api = {
       'Recent Video 2',
       'Recent Video 2 Views',
       'Recent Video 3',
-      'Recent Video 3 Views'
+      'Recent Video 3 Views',
+      ...ACTIVITY_HEADERS
     ];
 
     // CSV rows
     const rows = results.map(result => {
+      if (!result) {
+        return headers.map(() => '');
+      }
       const recentVideos = result.recentVideos || [];
       return [
         this.escapeCsvValue(result.channelTitle || ''),
@@ -215,12 +536,18 @@ export const api = {
         this.escapeCsvValue(recentVideos[1]?.title || ''),
         recentVideos[1]?.viewCount || 0,
         this.escapeCsvValue(recentVideos[2]?.title || ''),
-        recentVideos[2]?.viewCount || 0
+        recentVideos[2]?.viewCount || 0,
+        ...this.activityCsvValues(result.activity)
       ];
     });
 
+    // 原始列按导入时的顺序放在最前面
+    const original = (values?: string[]) => (values || []).map(value => this.escapeCsvValue(value));
+    const allHeaders = [...original(originalColumns?.headers), ...headers];
+    const allRows = rows.map((row, index) => [...original(originalColumns?.rows[index]), ...row]);
+
     // Combine headers and rows
-    const csvContent = [headers, ...rows]
+    const csvContent = [allHeaders, ...allRows]
       .map(row => row.join(','))
       .join('\n');
 
@@ -0,0 +1,58 @@
+import type { InfluencerResult, RecentVideo, VideoResult } from '../types';
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? Math.round((sorted[middle - 1] + sorted[middle]) / 2)
+    : sorted[middle];
+};
+
+const toRecentVideo = (video: VideoResult): RecentVideo => ({
+  videoId: video.videoId,
+  title: video.title,
+  publishedAt: video.publishedAt,
+  viewCount: video.viewCount,
+  thumbnailUrl: video.thumbnailUrl
+});
+
+// 按 channel.channelId 聚合视频结果，频道和频道内视频都保持传入的排序
+// 频道的总播放量/视频数不在视频结果中，聚合结果只提供匹配视频的统计（matchStats）
+export const groupVideosByChannel = (videos: VideoResult[]): InfluencerResult[] => {
+  const groups = new Map<string, VideoResult[]>();
+
+  videos.forEach(video => {
+    const channelVideos = groups.get(video.channel.channelId);
+    if (channelVideos) {
+      channelVideos.push(video);
+    } else {
+      groups.set(video.channel.channelId, [video]);
+    }
+  });
+
+  return Array.from(groups.values()).map(channelVideos => {
+    const { channel } = channelVideos[0];
+    const bestVideo = channelVideos.reduce((best, video) => video.viewCount > best.viewCount ? video : best);
+
+    return {
+      channelId: channel.channelId,
+      channelTitle: channel.channelTitle,
+      channelUrl: channel.channelUrl,
+      thumbnailUrl: channel.thumbnailUrl,
+      subscriberCount: channel.subscriberCount,
+      viewCount: 0,
+      videoCount: 0,
+      country: channel.country || 'Unknown',
+      recentVideos: channelVideos.map(toRecentVideo),
+      relevanceScore: Math.max(...channelVideos.map(video => video.relevanceScore)),
+      activity: channel.activity,
+      matchStats: {
+        videoCount: channelVideos.length,
+        totalViews: channelVideos.reduce((sum, video) => sum + video.viewCount, 0),
+        medianViews: median(channelVideos.map(video => video.viewCount)),
+        bestVideo: toRecentVideo(bestVideo)
+      }
+    };
+  });
+};
@@ -0,0 +1,77 @@
+// 用户粘贴的频道/视频链接解析结果，value 为解析出的标识（不含前缀）
+export type ChannelLink =
+  | { kind: 'channelId'; input: string; value: string } // /channel/UC...
+  | { kind: 'handle'; input: string; value: string } // @handle
+  | { kind: 'username'; input: string; value: string } // 旧版 /user/name
+  | { kind: 'customUrl'; input: string; value: string } // /c/name 或 youtube.com/name
+  | { kind: 'video'; input: string; value: string }; // watch?v= / youtu.be / shorts
+
+const CHANNEL_ID_PATTERN = /^UC[\w-]{22}$/;
+const VIDEO_ID_PATTERN = /^[\w-]{11}$/;
+const YOUTUBE_HOSTS = ['youtube.com', 'www.youtube.com', 'm.youtube.com', 'music.youtube.com'];
+
+// 不能作为 youtube.com/<name> 自定义URL的路径
+const RESERVED_PATHS = ['watch', 'results', 'playlist', 'feed', 'shorts', 'live', 'embed', 'channel', 'c', 'user'];
+
+// 无法识别时返回 null；不带协议的 youtube.com/... 也可以识别
+export const parseChannelLink = (rawInput: string): ChannelLink | null => {
+  const input = rawInput.trim();
+  if (!input) return null;
+
+  if (CHANNEL_ID_PATTERN.test(input)) {
+    return { kind: 'channelId', input, value: input };
+  }
+  if (/^@[\w.-]{3,30}$/.test(input)) {
+    return { kind: 'handle', input, value: input };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(/^https?:\/\//i.test(input) ? input : `https://${input}`);
+  } catch {
+    return null;
+  }
+
+  const host = url.hostname.toLowerCase();
+  let segments: string[];
+  try {
+    segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    // new URL 接受格式错误的百分号编码（如 %E0%A4），decodeURIComponent 会抛出 URIError
+    return null;
+  }
+
+  if (host === 'youtu.be') {
+    return segments[0] && VIDEO_ID_PATTERN.test(segments[0]) ? { kind: 'video', input, value: segments[0] } : null;
+  }
+  if (!YOUTUBE_HOSTS.includes(host)) {
+    return null;
+  }
+
+  const [first, second] = segments;
+  const videoId = first === 'watch' ? url.searchParams.get('v') : ['shorts', 'live', 'embed'].includes(first) ? second : null;
+  if (videoId) {
+    return VIDEO_ID_PATTERN.test(videoId) ? { kind: 'video', input, value: videoId } : null;
+  }
+
+  if (first?.startsWith('@')) {
+    return { kind: 'handle', input, value: first };
+  }
+  if (first === 'channel' && second && CHANNEL_ID_PATTERN.test(second)) {
+    return { kind: 'channelId', input, value: second };
+  }
+  if (first === 'user' && second) {
+    return { kind: 'username', input, value: second };
+  }
+  if (first === 'c' && second) {
+    return { kind: 'customUrl', input, value: second };
+  }
+  if (first && !RESERVED_PATHS.includes(first)) {
+    return { kind: 'customUrl', input, value: first };
+  }
+  return null;
+};
+
+// 按行、逗号或空白拆分粘贴的文本，去掉空项和重复项
+export const splitChannelLinks = (text: string): string[] =>
+  [...new Set(text.split(/[\s,，]+/).map(item => item.trim()).filter(Boolean))];
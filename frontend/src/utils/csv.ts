@@ -0,0 +1,73 @@
+import type { CreatorImport } from '../types';
+import { parseChannelLink } from './channelLinks';
+
+// 解析CSV文本（RFC 4180：双引号包裹的字段可以包含逗号、换行和转义的双引号），忽略空行
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // Excel 导出的UTF-8文件带BOM
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(value => value.trim() !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+  return rows;
+};
+
+// 列名包含这些词时优先作为链接列
+const LINK_HEADER_PATTERN = /(url|link|channel|handle|youtube|链接|频道|主页)/i;
+
+// 选出能解析为频道链接最多的列；第一行本身就是链接时视为没有表头
+export const toCreatorImport = (rows: string[][], fileName?: string): CreatorImport | null => {
+  if (rows.length === 0) return null;
+
+  const width = Math.max(...rows.map(row => row.length));
+  const hasHeader = !rows[0].some(cell => parseChannelLink(cell) !== null);
+  const headers = hasHeader
+    ? Array.from({ length: width }, (_, index) => rows[0][index]?.trim() || `Column ${index + 1}`)
+    : Array.from({ length: width }, (_, index) => `Column ${index + 1}`);
+  const dataRows = (hasHeader ? rows.slice(1) : rows)
+    .map(row => Array.from({ length: width }, (_, index) => row[index] ?? ''));
+
+  const scores = headers.map((header, column) =>
+    dataRows.filter(row => parseChannelLink(row[column]) !== null).length +
+    (LINK_HEADER_PATTERN.test(header) ? 0.5 : 0)
+  );
+  const linkColumn = scores.indexOf(Math.max(...scores));
+
+  return { fileName, headers, rows: dataRows, linkColumn };
+};
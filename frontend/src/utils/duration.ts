@@ -0,0 +1,59 @@
+import type { VideoDurationFilter } from '../types';
+import type { SearchListParams } from '../services/youtube-api.service';
+
+// Shorts 上限60秒；中视频到20分钟为止（与API的long分界一致）
+export const SHORTS_MAX_SECONDS = 60;
+export const MEDIUM_MAX_SECONDS = 20 * 60;
+
+export const DURATION_FILTER_OPTIONS: Array<{ value: VideoDurationFilter; label: string }> = [
+  { value: 'any', label: '不限时长' },
+  { value: 'shorts', label: 'Shorts (≤60秒)' },
+  { value: 'medium', label: '中视频 (1-20分钟)' },
+  { value: 'long', label: '长视频 (>20分钟)' },
+];
+
+// 解析 ISO 8601 时长（如 PT1H2M3S、P1DT2H），无法解析时返回0
+export const parseDuration = (duration: string): number => {
+  const match = duration.match(/^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/);
+  if (!match) return 0;
+
+  const [, weeks, days, hours, minutes, seconds] = match.map(value => parseFloat(value || '0'));
+  return Math.round(((weeks * 7 + days) * 24 + hours) * 3600 + minutes * 60 + seconds);
+};
+
+export const formatDuration = (totalSeconds: number): string => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  }
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+// API的videoDuration只有short(<4分钟)/medium(4-20分钟)/long(>20分钟)：
+// Shorts先用short缩小范围再按秒数筛选，long可以直接映射，中视频跨越short和medium只能在获取时长后筛选
+export const getApiVideoDuration = (filter: VideoDurationFilter = 'any'): SearchListParams['videoDuration'] => {
+  switch (filter) {
+    case 'shorts':
+      return 'short';
+    case 'long':
+      return 'long';
+    default:
+      return undefined;
+  }
+};
+
+export const matchesDurationFilter = (durationSeconds: number, filter: VideoDurationFilter = 'any'): boolean => {
+  switch (filter) {
+    case 'shorts':
+      return durationSeconds > 0 && durationSeconds <= SHORTS_MAX_SECONDS;
+    case 'medium':
+      return durationSeconds > SHORTS_MAX_SECONDS && durationSeconds <= MEDIUM_MAX_SECONDS;
+    case 'long':
+      return durationSeconds > MEDIUM_MAX_SECONDS;
+    default:
+      return true;
+  }
+};
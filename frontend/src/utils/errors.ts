@@ -0,0 +1,18 @@
+import type { AppError } from '../types';
+import { YouTubeApiError } from '../services/youtube-api.service';
+
+// 把任意异常转换为按 kind 区分的 AppError，无法识别的归为 Unknown
+export const toAppError = (error: unknown, fallbackMessage: string): AppError => {
+  if (error instanceof YouTubeApiError) {
+    return error.toAppError();
+  }
+  // fetch 在网络层失败时抛出 TypeError
+  if (error instanceof TypeError) {
+    return { kind: 'Network', message: '🌐 网络连接失败，请检查网络后重试。', details: error.message };
+  }
+  return {
+    kind: 'Unknown',
+    message: fallbackMessage,
+    details: error instanceof Error ? error.message : error
+  };
+};
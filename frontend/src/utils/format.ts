@@ -8,6 +8,21 @@ export const formatNumber = (num: number): string => {
   return num.toString();
 };
 
+// 比率（小数）格式化为百分比，如 0.0352 -> 3.52%
+export const formatPercent = (ratio: number, digits: number = 2): string => {
+  return `${(ratio * 100).toFixed(digits)}%`;
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+  if (bytes >= 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${bytes} B`;
+};
+
 export const formatDate = (dateString: string): string => {
   const date = new Date(dateString);
   const now = new Date();
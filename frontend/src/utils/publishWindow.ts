@@ -0,0 +1,45 @@
+export type PublishWindowPreset = 'last7Days' | 'last30Days' | 'last90Days' | 'lastYear' | 'allTime' | 'custom';
+
+export interface PublishWindow {
+  publishedAfter?: string;
+  publishedBefore?: string;
+}
+
+export const DEFAULT_PUBLISH_WINDOW_PRESET: PublishWindowPreset = 'lastYear';
+
+export const PUBLISH_WINDOW_PRESETS: Array<{ value: PublishWindowPreset; label: string; days?: number }> = [
+  { value: 'last7Days', label: '最近7天', days: 7 },
+  { value: 'last30Days', label: '最近30天', days: 30 },
+  { value: 'last90Days', label: '最近90天', days: 90 },
+  { value: 'lastYear', label: '最近一年', days: 365 },
+  { value: 'allTime', label: '不限时间' },
+  { value: 'custom', label: '自定义范围' },
+];
+
+// 把预设转换为 search.list 的 publishedAfter/publishedBefore（RFC 3339）
+// 起点取当天0点，使同一天内相同条件的搜索得到相同的参数（便于缓存命中）
+export const getPublishWindow = (
+  preset: PublishWindowPreset,
+  customRange?: [Date, Date]
+): PublishWindow => {
+  if (preset === 'custom') {
+    if (!customRange) return {};
+    const [start, end] = customRange;
+    const endOfDay = new Date(end);
+    endOfDay.setHours(23, 59, 59, 999);
+    const startOfDay = new Date(start);
+    startOfDay.setHours(0, 0, 0, 0);
+    return {
+      publishedAfter: startOfDay.toISOString(),
+      publishedBefore: endOfDay.toISOString()
+    };
+  }
+
+  const days = PUBLISH_WINDOW_PRESETS.find(option => option.value === preset)?.days;
+  if (!days) return {};
+
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - days);
+  return { publishedAfter: start.toISOString() };
+};
@@ -0,0 +1,122 @@
+import type { AppError, SearchOutcome, SearchStage } from '../types';
+import { isAbortError, type QuotaMeter, type YouTubeApiService } from '../services/youtube-api.service';
+import { toAppError } from './errors';
+
+// 记录一次搜索中每个查询各阶段的成功/失败和配额消耗，同一查询同一阶段的多次执行合并为一条
+export class OutcomeRecorder {
+  private outcomes = new Map<string, SearchOutcome>();
+  private retryFrom = new Map<string, string | undefined>();
+  private errors: unknown[] = [];
+
+  // 执行一个阶段：task 收到的客户端会把配额计入该阶段；失败时记录后原样抛出，由调用方决定是否继续
+  async track<T>(
+    query: string,
+    stage: SearchStage,
+    api: YouTubeApiService,
+    task: (api: YouTubeApiService) => Promise<T>,
+    pageToken?: string
+  ): Promise<T> {
+    const outcome = this.getOutcome(query, stage);
+    const meter: QuotaMeter = { units: 0 };
+    outcome.attempts++;
+
+    try {
+      return await task(api.withMeter(meter));
+    } catch (error) {
+      if (!isAbortError(error)) {
+        this.recordFailure(outcome, error, pageToken);
+      }
+      throw error;
+    } finally {
+      outcome.quotaSpent += meter.units;
+    }
+  }
+
+  hasFailed(query: string): boolean {
+    return this.retryFrom.has(query);
+  }
+
+  getFirstError(): unknown {
+    return this.errors[0];
+  }
+
+  getOutcomes(): SearchOutcome[] {
+    return [...this.outcomes.values()];
+  }
+
+  private getOutcome(query: string, stage: SearchStage): SearchOutcome {
+    const id = `${stage}:${query}`;
+    let outcome = this.outcomes.get(id);
+    if (!outcome) {
+      outcome = { query, stage, status: 'success', attempts: 0, failures: 0, quotaSpent: 0 };
+      this.outcomes.set(id, outcome);
+    }
+    return outcome;
+  }
+
+  private recordFailure(outcome: SearchOutcome, error: unknown, pageToken?: string): void {
+    // 重试从该查询第一次失败的页开始
+    if (!this.retryFrom.has(outcome.query)) {
+      this.retryFrom.set(outcome.query, pageToken);
+    }
+    const appError = toAppError(error, `${outcome.stage} failed for "${outcome.query}"`);
+
+    outcome.status = 'failure';
+    outcome.failures++;
+    outcome.errorKind = appError.kind;
+    outcome.errorMessage = appError.message;
+    outcome.retryPageToken = this.retryFrom.get(outcome.query);
+    this.errors.push(error);
+  }
+}
+
+export const getFailedOutcomes = (outcomes: SearchOutcome[]): SearchOutcome[] =>
+  outcomes.filter(outcome => outcome.status === 'failure');
+
+// 每个失败的查询重试一次，从第一次失败的页开始
+export const getRetryCursors = (outcomes: SearchOutcome[]): Array<{ query: string; pageToken?: string }> => {
+  const cursors = new Map<string, string | undefined>();
+  getFailedOutcomes(outcomes).forEach(outcome => {
+    if (!cursors.has(outcome.query)) {
+      cursors.set(outcome.query, outcome.retryPageToken);
+    }
+  });
+  return [...cursors].map(([query, pageToken]) => ({ query, pageToken }));
+};
+
+// 按查询+阶段合并：执行次数、失败次数和配额累加，状态以最近一次执行为准
+export const mergeOutcomes = (previous: SearchOutcome[], next: SearchOutcome[]): SearchOutcome[] => {
+  const merged = new Map(previous.map(outcome => [`${outcome.stage}:${outcome.query}`, outcome]));
+  next.forEach(outcome => {
+    const id = `${outcome.stage}:${outcome.query}`;
+    const existing = merged.get(id);
+    merged.set(id, existing ? {
+      ...outcome,
+      attempts: existing.attempts + outcome.attempts,
+      failures: existing.failures + outcome.failures,
+      quotaSpent: existing.quotaSpent + outcome.quotaSpent
+    } : outcome);
+  });
+  return [...merged.values()];
+};
+
+// 仍有失败阶段时生成 PartialFailure 错误
+export const getPartialFailure = (outcomes: SearchOutcome[]): AppError | undefined => {
+  const failed = getFailedOutcomes(outcomes);
+  if (failed.length === 0) {
+    return undefined;
+  }
+
+  const failedQueries = [...new Set(failed.map(outcome => outcome.query))];
+  const totalQueries = new Set(outcomes.map(outcome => outcome.query)).size;
+  return {
+    kind: 'PartialFailure',
+    message: `⚠️ ${failedQueries.length}/${totalQueries} 个搜索查询未能完整执行，结果可能不完整。`,
+    failedQueries,
+    totalQueries,
+    causes: failed.map(outcome => ({
+      kind: outcome.errorKind && outcome.errorKind !== 'PartialFailure' ? outcome.errorKind : 'Unknown',
+      message: `${outcome.query} (${outcome.stage}): ${outcome.errorMessage || 'failed'}`
+    }))
+  };
+};
@@ -0,0 +1,96 @@
+// 从视频标题和标签中挑出有区分度的词，用于查找相似创作者
+
+export interface TermSource {
+  title: string;
+  tags?: string[];
+}
+
+export interface MinedTerm {
+  term: string;
+  weight: number; // 出现在多少个视频中，标签和词组加权
+}
+
+// 没有区分度的常见词（英文虚词和YouTube标题套话）
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'you', 'your', 'this', 'that', 'are', 'was', 'from', 'have', 'has', 'not', 'but',
+  'all', 'can', 'will', 'what', 'how', 'why', 'who', 'when', 'which', 'about', 'into', 'out', 'our', 'its', 'just',
+  'more', 'most', 'than', 'then', 'they', 'them', 'get', 'got', 'one', 'two', 'new', 'best', 'top', 'vs', 'really',
+  'video', 'videos', 'official', 'channel', 'episode', 'part', 'full', 'live', 'shorts', 'short', 'subscribe',
+  'review', 'reviews', 'unboxing', 'first', 'look', 'test', 'hands', 'worth', 'should', 'buy', 'week', 'day', 'year'
+]);
+
+// 标签和两词组合比单个词更具体
+const TAG_BOOST = 1.5;
+const PHRASE_BOOST = 1.5;
+// 较长的无空格文本（如整句中文标题）不作为候选词
+const MAX_TOKEN_LENGTH = 12;
+const MAX_TAG_WORDS = 4;
+
+const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length >= 3 && token.length <= MAX_TOKEN_LENGTH && !/^\d+$/.test(token));
+
+const isContentWord = (token: string) => !STOP_WORDS.has(token);
+
+// 一个视频的候选词及加权：标题中的单词和相邻两词组合，以及完整的标签
+export const extractTerms = (source: TermSource): Map<string, number> => {
+  const terms = new Map<string, number>();
+  const add = (term: string, boost: number) => terms.set(term, Math.max(terms.get(term) || 0, boost));
+
+  const tokens = tokenize(source.title);
+  tokens.forEach((token, index) => {
+    if (!isContentWord(token)) return;
+    add(token, 1);
+    const next = tokens[index + 1];
+    if (next && isContentWord(next)) {
+      add(`${token} ${next}`, PHRASE_BOOST);
+    }
+  });
+
+  (source.tags || []).forEach(tag => {
+    const words = tokenize(tag);
+    if (words.length === 0 || words.length > MAX_TAG_WORDS || !words.some(isContentWord)) return;
+    add(words.join(' '), words.length > 1 ? TAG_BOOST * PHRASE_BOOST : TAG_BOOST);
+  });
+
+  return terms;
+};
+
+// 至少出现在两个视频中的词按权重排序；包含 excludedWords（如频道名）的词不计入，否则只会搜回种子频道自己
+export const mineDistinctiveTerms = (sources: TermSource[], excludedWords: string[] = [], limit = 20): MinedTerm[] => {
+  const excluded = new Set(excludedWords.flatMap(tokenize));
+  const weights = new Map<string, { count: number; weight: number }>();
+
+  sources.forEach(source => {
+    extractTerms(source).forEach((boost, term) => {
+      if (term.split(' ').some(word => excluded.has(word))) return;
+      const entry = weights.get(term) || { count: 0, weight: 0 };
+      entry.count++;
+      entry.weight += boost;
+      weights.set(term, entry);
+    });
+  });
+
+  return [...weights]
+    .filter(([, entry]) => entry.count >= 2)
+    .map(([term, entry]) => ({ term, weight: entry.weight }))
+    .sort((a, b) => b.weight - a.weight || b.term.split(' ').length - a.term.split(' ').length)
+    .slice(0, limit);
+};
+
+// 挑选互不重叠的搜索词，避免 "mechanical keyboard" 和 "keyboard" 搜出同一批结果
+export const pickSearchTerms = (terms: MinedTerm[], count: number): string[] => {
+  const picked: string[] = [];
+  const usedWords = new Set<string>();
+
+  for (const { term } of terms) {
+    const words = term.split(' ');
+    if (words.some(word => usedWords.has(word))) continue;
+    picked.push(term);
+    words.forEach(word => usedWords.add(word));
+    if (picked.length >= count) break;
+  }
+  return picked;
+};
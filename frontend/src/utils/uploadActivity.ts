@@ -0,0 +1,70 @@
+import type { ChannelActivity, SearchFilters } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+// 发布时间从新到旧，忽略无法解析的日期
+const toSortedTimes = (publishedDates: string[]): number[] =>
+  publishedDates
+    .map(date => new Date(date).getTime())
+    .filter(time => !Number.isNaN(time))
+    .sort((a, b) => b - a);
+
+const getGapsInDays = (times: number[]): number[] =>
+  times.slice(1).map((time, index) => (times[index] - time) / DAY_MS);
+
+// publishedDates 为视频发布时间（ISO字符串），顺序不限；sampleFull 表示样本达到了获取上限，频道可能还有更早的上传
+// 频道活跃度；上传特别频繁的频道最近30/90天的数量会被样本大小截断，此时月上传数按样本实际覆盖的天数估算
+export const getChannelActivity = (publishedDates: string[], sampleFull = false, now: Date = new Date()): ChannelActivity => {
+  const times = toSortedTimes(publishedDates);
+  const gaps = getGapsInDays(times);
+  const uploadsWithin = (days: number) => times.filter(time => now.getTime() - time <= days * DAY_MS).length;
+  const sampleDays = times.length > 0 ? (now.getTime() - times[times.length - 1]) / DAY_MS : 0;
+  const sampleCapped = sampleFull && times.length > 0 && sampleDays <= 90;
+
+  return {
+    uploadsLast30Days: uploadsWithin(30),
+    uploadsLast90Days: uploadsWithin(90),
+    uploadsPerMonth: sampleCapped ? times.length / (Math.max(1, sampleDays) / 30) : uploadsWithin(90) / 3,
+    sampleCapped,
+    daysSinceLastUpload: times.length > 0 ? Math.max(0, Math.floor((now.getTime() - times[0]) / DAY_MS)) : null,
+    medianGapDays: gaps.length > 0 ? median(gaps) : null
+  };
+};
+
+// 样本被截断时数量只是下限，显示为 "50+"
+export const formatUploadCount = (count: number, activity: ChannelActivity): string =>
+  activity.sampleCapped ? `${count}+` : `${count}`;
+
+export const hasActivityFilter = (filters: Pick<SearchFilters, 'activeWithinDays' | 'minUploadsPerMonth'>): boolean =>
+  Boolean(filters.activeWithinDays || filters.minUploadsPerMonth);
+
+// 没有活跃度数据（上传列表获取失败）的频道不筛掉，与没有订阅数时的处理一致
+export const matchesActivityFilter = (
+  activity: ChannelActivity | undefined,
+  filters: Pick<SearchFilters, 'activeWithinDays' | 'minUploadsPerMonth'>
+): boolean => {
+  if (!activity) return true;
+  const { activeWithinDays, minUploadsPerMonth } = filters;
+
+  if (activeWithinDays && (activity.daysSinceLastUpload === null || activity.daysSinceLastUpload > activeWithinDays)) {
+    return false;
+  }
+  if (minUploadsPerMonth && activity.uploadsPerMonth < minUploadsPerMonth) {
+    return false;
+  }
+  return true;
+};
+
+// 卡片上的一行摘要，如 "Last upload 3d ago · 4.3 uploads/mo"
+export const describeActivity = (activity: ChannelActivity): string => {
+  const lastUpload = activity.daysSinceLastUpload === null
+    ? 'No public uploads'
+    : activity.daysSinceLastUpload === 0 ? 'Uploaded today' : `Last upload ${activity.daysSinceLastUpload}d ago`;
+  return `${lastUpload} · ${activity.uploadsPerMonth.toFixed(1)} uploads/mo`;
+};
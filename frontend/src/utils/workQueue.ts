@@ -0,0 +1,56 @@
+import { createLogger } from '../services/logger.service';
+
+const log = createLogger('youtube');
+
+// 有并发上限的任务队列，相同key的任务只执行一次
+// 成功的结果在队列生命周期内复用；失败的任务不保留，之后可以重新执行
+export class WorkQueue<T> {
+  private readonly concurrency: number;
+  private running = 0;
+  private waiting: Array<() => void> = [];
+  private tasks = new Map<string, Promise<T>>();
+
+  constructor(concurrency: number) {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+  }
+
+  run(key: string, task: () => Promise<T>): Promise<T> {
+    const existing = this.tasks.get(key);
+    if (existing) {
+      log.debug(`🔗 Coalesced duplicate task: ${key}`);
+      return existing;
+    }
+
+    const promise = this.schedule(task);
+    this.tasks.set(key, promise);
+    promise.catch(() => this.tasks.delete(key));
+    return promise;
+  }
+
+  private async schedule(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.running < this.concurrency) {
+      this.running++;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  // 名额直接交给下一个等待的任务，running 不变
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.running--;
+    }
+  }
+}